@@ -0,0 +1,9 @@
+module.exports = {
+  presets: ['module:@react-native/babel-preset'],
+  env: {
+    test: {
+      // the app's babel config adds it when the library is consumed
+      plugins: ['react-native-worklets/plugin'],
+    },
+  },
+}
@@ -19,8 +19,10 @@ const coreComponents = getComponentPaths([
   'Tab',
   'Lazy',
   'FlatList',
+  'FlashList',
   'ScrollView',
   'SectionList',
+  'DebugOverlay',
 ])
 
 const tabBarComponents = getComponentPaths([
@@ -35,6 +37,7 @@ const docs = docgen.withCustomConfig(tsconfig, {
     if (
       prop.parent ||
       component.name === 'Tabs.FlatList' ||
+      component.name === 'Tabs.FlashList' ||
       component.name === 'Tabs.SectionList' ||
       component.name === 'Tabs.ScrollView' ||
       prop.name.startsWith('_')
@@ -49,10 +52,15 @@ const docs = docgen.withCustomConfig(tsconfig, {
       case 'Tab':
       case 'Lazy':
       case 'FlatList':
+      case 'FlashList':
       case 'SectionList':
       case 'ScrollView':
+      case 'DebugOverlay':
         return 'Tabs.' + exp.escapedName
 
+      case 'MemoizedTabBar':
+        return 'MaterialTabBar'
+
       default:
         // fix hooks names
         return name.startsWith('Use') ? name.replace('Use', 'use') : name
@@ -77,6 +85,9 @@ const overrideProps: OverrideProps = {
       },
       defaultValue: null,
     },
+    disabled: {
+      description: "Whether the tab can't be focused.",
+    },
   },
   'Tabs.Container': {
     HeaderComponent: {
@@ -105,12 +116,6 @@ const overrideProps: OverrideProps = {
         value: '(props: TabBarProps<TabName>) => MaterialTabBar',
       },
     },
-    pagerProps: {
-      type: {
-        name: "Omit<FlatListProps<number>, 'data' | 'keyExtractor' | 'renderItem' | 'horizontal' | 'pagingEnabled' | 'onScroll' | 'showsHorizontalScrollIndicator' | 'getItemLayout'>",
-      },
-      defaultValue: null,
-    },
     onTabChange: {
       type: {
         name: '(data: { prevIndex: number index: number prevTabName: T tabName: T }) => void',
@@ -0,0 +1,8 @@
+const {
+  configureReanimatedLogger,
+  setUpTests,
+} = require('react-native-reanimated')
+
+setUpTests()
+// shared values are read during render on purpose, e.g. to pick the initial state
+configureReanimatedLogger({ strict: false })
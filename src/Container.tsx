@@ -1,7 +1,12 @@
 import React from 'react'
 import { StyleSheet, useWindowDimensions, View } from 'react-native'
-import PagerView from 'react-native-pager-view'
 import Animated, {
+  Extrapolation,
+  cancelAnimation,
+  Easing,
+  interpolate,
+  runOnJS,
+  runOnUI,
   useAnimatedReaction,
   useAnimatedStyle,
   useDerivedValue,
@@ -11,27 +16,48 @@ import Animated, {
 } from 'react-native-reanimated'
 
 import { Context, TabNameContext } from './Context'
+import { DebugOverlay } from './DebugOverlay'
 import { Lazy } from './Lazy'
 import { MaterialTabBar, TABBAR_HEIGHT } from './MaterialTabBar'
+import { PagerViewAdapter } from './PagerViewAdapter'
 import { Tab } from './Tab'
-import { IS_IOS, ONE_FRAME_MS, scrollToImpl } from './helpers'
+import { TabHeaders } from './TabHeaders'
+import {
+  ADAPTIVE_SYNC_SAMPLES,
+  ADAPTIVE_SYNC_SETTINGS,
+  CONTROLLED_TAB_TIMEOUT_MS,
+  getAdaptiveSyncLevel,
+  getNextTabSwitchState,
+  getSyncBatches,
+  IS_IOS,
+  logDebugEvent,
+  markScrollTarget,
+  ONE_FRAME_MS,
+  scrollToImpl,
+} from './helpers'
 import {
   useAnimatedDynamicRefs,
   useContainerRef,
-  usePageScrollHandler,
   useTabProps,
   useLayoutHeight,
+  useUnmountedTabs,
 } from './hooks'
 import {
+  AdaptiveSyncLevel,
   CollapsibleProps,
   CollapsibleRef,
   ContextType,
+  DefaultPagerComponent,
+  DebugEvent,
   IndexChangeEventData,
+  PagerComponent,
+  PerformanceReport,
   TabName,
+  TabProps,
+  TabSwitchEvent,
+  TabSwitchState,
 } from './types'
 
-const AnimatedPagerView = Animated.createAnimatedComponent(PagerView)
-
 /**
  * Basic usage looks like this:
  *
@@ -57,32 +83,64 @@ export const Container = React.memo(
     (
       {
         initialTabName,
+        initialState,
+        focusedTabName,
         headerHeight: initialHeaderHeight,
         minHeaderHeight = 0,
         tabBarHeight: initialTabBarHeight = TABBAR_HEIGHT,
         revealHeaderOnScroll = false,
         snapThreshold,
+        snapPoints,
+        snapVelocityThreshold = 0.5,
+        syncStrategy = 'match-header',
+        syncMode = 'all',
         children,
         renderHeader,
         renderTabBar = (props) => <MaterialTabBar {...props} />,
+        tabBarPosition = 'top',
         headerContainerStyle,
         cancelTranslation,
         containerStyle,
         lazy,
         cancelLazyFadeIn,
+        lazyTransition,
+        maxMountedTabs,
+        unmountInactiveAfterMs,
+        preloadDistance = 0,
+        renderLazyPlaceholder,
         pagerProps,
+        PagerComponent = PagerViewAdapter,
         onIndexChange,
         onTabChange,
         width: customWidth,
         allowHeaderOverscroll,
+        headerOverscrollMode = 'translate',
+        onHeaderCollapsed,
+        onHeaderExpanded,
+        onPerformanceReport,
+        debug = false,
       },
       ref
     ) => {
-      const containerRef = useContainerRef()
+      const containerRef = useContainerRef(PagerComponent === PagerViewAdapter)
 
-      const [tabProps, tabNamesArray] = useTabProps(children, Tab)
+      const [tabProps, tabNamesArray, hiddenTabProps] = useTabProps(
+        children,
+        Tab
+      )
+      const hiddenTabNames = React.useMemo(
+        () => Array.from(hiddenTabProps.keys()),
+        [hiddenTabProps]
+      )
 
-      const [refMap, setRef] = useAnimatedDynamicRefs()
+      const [allRefs, setRef] = useAnimatedDynamicRefs()
+      // the lists of hidden tabs stay registered, but don't follow the header
+      const refMap = React.useMemo(() => {
+        if (hiddenTabNames.length === 0) return allRefs
+        const visibleRefs = { ...allRefs }
+        hiddenTabNames.forEach((name) => delete visibleRefs[name])
+        return visibleRefs
+      }, [allRefs, hiddenTabNames])
 
       const windowWidth = useWindowDimensions().width
       const width = customWidth ?? windowWidth
@@ -96,30 +154,128 @@ export const Container = React.memo(
         !renderHeader ? 0 : initialHeaderHeight
       )
       const initialIndex = React.useMemo(
-        () =>
-          initialTabName
-            ? tabNamesArray.findIndex((n) => n === initialTabName)
-            : 0,
+        () => {
+          // a saved tab may have been removed, hidden or renamed since
+          const names = [
+            focusedTabName,
+            initialState?.focusedTab,
+            initialTabName,
+          ]
+          for (const name of names) {
+            const i = name !== undefined ? tabNamesArray.indexOf(name) : -1
+            if (i >= 0) return i
+          }
+          return 0
+        },
+        // the controlled tab only matters for the first render, later changes go through setPage
+        // eslint-disable-next-line react-hooks/exhaustive-deps
         [initialTabName, tabNamesArray]
       )
 
-      const contentInset = React.useMemo(() => {
-        if (allowHeaderOverscroll) return 0
+      const [tabHeaderHeights, setTabHeaderHeights] = React.useState<
+        Record<TabName, number>
+      >({})
+      const onTabHeaderHeightChange = React.useCallback(
+        (name: TabName, height: number) => {
+          setTabHeaderHeights((heights) =>
+            heights[name] === height ? heights : { ...heights, [name]: height }
+          )
+        },
+        []
+      )
+
+      const disabledTabs = React.useMemo(
+        () => tabNamesArray.map((name) => !!tabProps.get(name)?.disabled),
+        [tabNamesArray, tabProps]
+      )
+
+      const tabCollapseOptions: ContextType['tabCollapseOptions'] =
+        React.useMemo(
+          () =>
+            Object.fromEntries(
+              // hidden tabs too, so that their lists are ready to be shown
+              [...tabNamesArray, ...hiddenTabNames].map((name) => {
+                const props = tabProps.get(name) ?? hiddenTabProps.get(name)
+                return [
+                  name,
+                  {
+                    revealHeaderOnScroll:
+                      props?.revealHeaderOnScroll ?? revealHeaderOnScroll,
+                    snapThreshold:
+                      props?.snapThreshold !== undefined
+                        ? props.snapThreshold
+                        : snapThreshold,
+                    minHeaderHeight: props?.minHeaderHeight ?? minHeaderHeight,
+                    allowHeaderOverscroll:
+                      props?.allowHeaderOverscroll ?? allowHeaderOverscroll,
+                  },
+                ]
+              })
+            ),
+          [
+            tabNamesArray,
+            tabProps,
+            hiddenTabNames,
+            hiddenTabProps,
+            revealHeaderOnScroll,
+            snapThreshold,
+            minHeaderHeight,
+            allowHeaderOverscroll,
+          ]
+        )
+
+      // necessary for the refresh control on iOS to be positioned underneath the header
+      // this also adjusts the scroll bars to clamp underneath the header area
+      const usesContentInset = IS_IOS && !allowHeaderOverscroll
 
-        // necessary for the refresh control on iOS to be positioned underneath the header
-        // this also adjusts the scroll bars to clamp underneath the header area
-        return IS_IOS ? (headerHeight || 0) + (tabBarHeight || 0) : 0
-      }, [headerHeight, tabBarHeight, allowHeaderOverscroll])
+      const topInset =
+        (headerHeight || 0) + (tabBarPosition === 'top' ? tabBarHeight || 0 : 0)
+      const contentInset = usesContentInset ? topInset : 0
+
+      const contentInsets: ContextType['contentInsets'] = React.useMemo(
+        () =>
+          Object.fromEntries(
+            Object.keys(tabCollapseOptions).map((name) => [
+              name,
+              IS_IOS && !tabCollapseOptions[name].allowHeaderOverscroll
+                ? topInset + (tabHeaderHeights[name] || 0)
+                : 0,
+            ])
+          ),
+        [tabCollapseOptions, topInset, tabHeaderHeights]
+      )
 
       const snappingTo: ContextType['snappingTo'] = useSharedValue(0)
       const offset: ContextType['offset'] = useSharedValue(0)
-      const accScrollY: ContextType['accScrollY'] = useSharedValue(0)
-      const oldAccScrollY: ContextType['oldAccScrollY'] = useSharedValue(0)
-      const accDiffClamp: ContextType['accDiffClamp'] = useSharedValue(0)
-      const scrollYCurrent: ContextType['scrollYCurrent'] = useSharedValue(0)
+      const initialScrollY =
+        initialState?.scrollY[tabNamesArray[initialIndex]] ?? 0
+      const accScrollY: ContextType['accScrollY'] =
+        useSharedValue(initialScrollY)
+      const oldAccScrollY: ContextType['oldAccScrollY'] =
+        useSharedValue(initialScrollY)
+      const accDiffClamp: ContextType['accDiffClamp'] = useSharedValue(
+        initialState?.accDiffClamp ?? 0
+      )
+      const scrollYCurrent: ContextType['scrollYCurrent'] =
+        useSharedValue(initialScrollY)
+      // saved offsets of tabs that no longer exist are ignored
       const scrollY: ContextType['scrollY'] = useSharedValue(
-        Object.fromEntries(tabNamesArray.map((n) => [n, 0]))
+        Object.fromEntries(
+          tabNamesArray.map((n) => [n, initialState?.scrollY[n] ?? 0])
+        )
+      )
+
+      /**
+       * Offsets from `initialState` of the tabs that are not restored yet.
+       */
+      const pendingRestore = useSharedValue<Record<TabName, number>>(
+        Object.fromEntries(
+          tabNamesArray
+            .map((n) => [n, initialState?.scrollY[n] ?? 0] as const)
+            .filter(([, y]) => y > 0)
+        )
       )
+      const didResync = useSharedValue(false)
 
       const contentHeights: ContextType['contentHeights'] = useSharedValue(
         tabNamesArray.map(() => 0)
@@ -136,15 +292,47 @@ export const Container = React.memo(
           return tabNames.value[index.value]
         }, [tabNames])
       const calculateNextOffset = useSharedValue(initialIndex)
-      const headerScrollDistance: ContextType['headerScrollDistance'] =
-        useDerivedValue(() => {
-          return headerHeight !== undefined ? headerHeight - minHeaderHeight : 0
-        }, [headerHeight, minHeaderHeight])
-
       const indexDecimal: ContextType['indexDecimal'] = useSharedValue(
         index.value
       )
 
+      /**
+       * Height of the tabs' own header sections, interpolated while swiping.
+       */
+      const tabHeaderHeight = useDerivedValue(() => {
+        const heights = tabNamesArray.map((name) => tabHeaderHeights[name] || 0)
+        if (heights.length < 2) return heights[0] || 0
+        return interpolate(
+          indexDecimal.value,
+          heights.map((_, i) => i),
+          heights,
+          Extrapolation.CLAMP
+        )
+      }, [tabNamesArray, tabHeaderHeights])
+
+      /**
+       * Minimum header height of the tabs, interpolated while swiping.
+       */
+      const tabMinHeaderHeight = useDerivedValue(() => {
+        const heights = tabNamesArray.map(
+          (name) => tabCollapseOptions[name].minHeaderHeight
+        )
+        if (heights.length < 2) return heights[0] ?? minHeaderHeight
+        return interpolate(
+          indexDecimal.value,
+          heights.map((_, i) => i),
+          heights,
+          Extrapolation.CLAMP
+        )
+      }, [tabNamesArray, tabCollapseOptions, minHeaderHeight])
+
+      const headerScrollDistance: ContextType['headerScrollDistance'] =
+        useDerivedValue(() => {
+          return headerHeight !== undefined
+            ? headerHeight + tabHeaderHeight.value - tabMinHeaderHeight.value
+            : 0
+        }, [headerHeight])
+
       const afterRender = useSharedValue(0)
       React.useEffect(() => {
         afterRender.value = withDelay(
@@ -153,16 +341,55 @@ export const Container = React.memo(
         )
       }, [afterRender, tabNamesArray])
 
+      /**
+       * Scroll a tab to its `initialState` offset, returns whether its content
+       * was tall enough to get there.
+       */
+      const restoreTabScroll = (name: TabName) => {
+        'worklet'
+        const y = pendingRestore.value[name]
+        if (!refMap[name]) return false
+        markScrollTarget(scrollTargets, name, y, y)
+        scrollToImpl(refMap[name], 0, y - contentInsets[name], false)
+
+        const contentHeight =
+          contentHeights.value[tabNamesArray.indexOf(name)] || 0
+        return contentHeight - containerHeight + contentInsets[name] >= y
+      }
+
+      const finishRestore = (names: TabName[]) => {
+        'worklet'
+        if (!names.length) return
+        const pending = { ...pendingRestore.value }
+        for (const name of names) {
+          delete pending[name]
+        }
+        pendingRestore.value = pending
+      }
+
       const resyncTabScroll = () => {
         'worklet'
+        const restored: TabName[] = []
         for (const name of tabNamesArray) {
-          scrollToImpl(
-            refMap[name],
-            0,
-            scrollYCurrent.value - contentInset,
-            false
-          )
+          if (pendingRestore.value[name] !== undefined) {
+            if (restoreTabScroll(name)) restored.push(name)
+          } else {
+            markScrollTarget(
+              scrollTargets,
+              name,
+              scrollYCurrent.value,
+              scrollYCurrent.value
+            )
+            scrollToImpl(
+              refMap[name],
+              0,
+              scrollYCurrent.value - contentInsets[name],
+              false
+            )
+          }
         }
+        didResync.value = true
+        finishRestore(restored)
       }
 
       // the purpose of this is to scroll to the proper position if dynamic tabs are changing
@@ -176,7 +403,56 @@ export const Container = React.memo(
             resyncTabScroll()
           }
         },
-        [tabNamesArray, refMap, afterRender, contentInset]
+        [tabNamesArray, refMap, afterRender, contentInsets]
+      )
+
+      const unmountedTabs = useUnmountedTabs(
+        focusedTab,
+        tabNamesArray,
+        maxMountedTabs,
+        unmountInactiveAfterMs,
+        preloadDistance
+      )
+
+      /**
+       * Restore the scroll position of unmounted tabs like `initialState`,
+       * once they mount again and their content is tall enough.
+       */
+      const saveUnmountedTabs = (names: TabName[]) => {
+        'worklet'
+        const pending = { ...pendingRestore.value }
+        const heights = [...contentHeights.value]
+        for (const name of names) {
+          const y = scrollY.value[name] || 0
+          if (y > 0) pending[name] = y
+          // the old content is gone, wait for the new one
+          heights[tabNamesArray.indexOf(name)] = 0
+        }
+        pendingRestore.value = pending
+        contentHeights.value = heights
+      }
+
+      const prevUnmountedTabs = React.useRef(unmountedTabs)
+      React.useEffect(() => {
+        const names = [...unmountedTabs].filter(
+          (name) => !prevUnmountedTabs.current.has(name)
+        )
+        prevUnmountedTabs.current = unmountedTabs
+        if (names.length) runOnUI(saveUnmountedTabs)(names)
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+      }, [unmountedTabs])
+
+      // restore the `initialState` offsets as the tabs' content grows
+      useAnimatedReaction(
+        () => contentHeights.value,
+        () => {
+          const names = Object.keys(pendingRestore.value)
+          if (!names.length) return
+          const restored = names.filter(restoreTabScroll)
+          // the first resync would undo it, so wait for it before finishing
+          if (didResync.value) finishRestore(restored)
+        },
+        [tabNamesArray, refMap, contentInsets, containerHeight]
       )
 
       // derived from scrollX
@@ -190,11 +466,16 @@ export const Container = React.memo(
           return nextIndex
         },
         (nextIndex) => {
-          if (nextIndex !== null && nextIndex !== index.value) {
+          // passing over a disabled tab doesn't focus it
+          if (
+            nextIndex !== null &&
+            nextIndex !== index.value &&
+            !disabledTabs[nextIndex]
+          ) {
             calculateNextOffset.value = nextIndex
           }
         },
-        []
+        [disabledTabs]
       )
 
       const propagateTabChange = React.useCallback(
@@ -205,52 +486,340 @@ export const Container = React.memo(
         [onIndexChange, onTabChange]
       )
 
-      const lastSyncTime = useSharedValue(0)
-      const isScrolling = useSharedValue(false)
-      const syncInProgress = useSharedValue(false)
-      const tabSwitchInProgress = useSharedValue(false)
-      
-      // 极简高性能同步：专注于核心性能
-      const syncCurrentTabScrollPosition = () => {
+      /**
+       * Index of `focusedTabName`, or -1 if the container is uncontrolled.
+       */
+      const controlledIndex = useSharedValue(
+        focusedTabName !== undefined ? initialIndex : -1
+      )
+
+      /**
+       * Timer of a tab request the parent hasn't answered yet, in controlled mode.
+       */
+      const pendingRequest = React.useRef<ReturnType<typeof setTimeout> | null>(
+        null
+      )
+      /**
+       * Tab pressed in controlled mode, and when, until the pager moves to it.
+       */
+      const pressedTab = useSharedValue<{ index: number; at: number } | null>(
+        null
+      )
+
+      React.useEffect(() => {
+        const i =
+          focusedTabName !== undefined
+            ? tabNamesArray.findIndex((n) => n === focusedTabName)
+            : -1
+        controlledIndex.value = i
+        // the parent answered the pending request
+        if (pendingRequest.current !== null) {
+          clearTimeout(pendingRequest.current)
+          pendingRequest.current = null
+        }
+        if (i >= 0 && i !== index.value) {
+          containerRef.current?.setPage(i)
+        }
+      }, [focusedTabName, tabNamesArray, controlledIndex, index, containerRef])
+
+      /**
+       * Latest `focusedTabName`, so that a request accepted by the parent is
+       * seen before its effect runs.
+       */
+      const latestFocusedTabName = React.useRef(focusedTabName)
+      latestFocusedTabName.current = focusedTabName
+
+      const restoreControlledTab = React.useCallback(() => {
+        const name = latestFocusedTabName.current
+        const i = name !== undefined ? tabNamesArray.indexOf(name) : -1
+        if (i >= 0 && i !== index.value) {
+          containerRef.current?.setPage(i)
+        }
+      }, [tabNamesArray, index, containerRef])
+
+      /**
+       * Go back to the controlled tab once a request is rejected, that is when
+       * the parent renders again without updating `focusedTabName`, or doesn't
+       * answer within `CONTROLLED_TAB_TIMEOUT_MS`.
+       */
+      const rejectPendingRequest = React.useCallback(() => {
+        if (pendingRequest.current === null) return
+        clearTimeout(pendingRequest.current)
+        pendingRequest.current = null
+        pressedTab.value = null
+        restoreControlledTab()
+      }, [restoreControlledTab, pressedTab])
+
+      /**
+       * A swipe settled away from the controlled tab, or a tab was pressed: ask
+       * the parent to move, and stay there until it answers.
+       */
+      const requestControlledTab = React.useCallback(
+        (i: number) => {
+          const prevIndex = controlledIndex.value
+          propagateTabChange({
+            prevIndex,
+            index: i,
+            prevTabName: tabNamesArray[prevIndex],
+            tabName: tabNamesArray[i],
+          })
+          if (pendingRequest.current !== null) {
+            clearTimeout(pendingRequest.current)
+          }
+          pendingRequest.current = setTimeout(
+            rejectPendingRequest,
+            CONTROLLED_TAB_TIMEOUT_MS
+          )
+        },
+        [
+          controlledIndex,
+          tabNamesArray,
+          propagateTabChange,
+          rejectPendingRequest,
+        ]
+      )
+
+      // a parent that renders again with the same `focusedTabName` rejected the
+      // request, an accepted one was handled by the effect above
+      React.useEffect(() => {
+        rejectPendingRequest()
+      }, [children, rejectPendingRequest])
+
+      React.useEffect(
+        () => () => {
+          if (pendingRequest.current !== null) {
+            clearTimeout(pendingRequest.current)
+          }
+        },
+        []
+      )
+
+      /**
+       * Move on to the next enabled tab in the direction of the swipe, or back
+       * to the focused one if there is none.
+       */
+      const skipDisabledTab = React.useCallback(
+        (i: number) => {
+          const direction = Math.sign(i - index.value)
+          let next = i
+          while (
+            next >= 0 &&
+            next < disabledTabs.length &&
+            disabledTabs[next]
+          ) {
+            next += direction || 1
+          }
+          if (next < 0 || next >= disabledTabs.length) next = index.value
+          containerRef.current?.setPage(next)
+        },
+        [disabledTabs, index, containerRef]
+      )
+
+      // once a swipe settles, leave a disabled tab, or request the tab from the parent in controlled mode
+      useAnimatedReaction(
+        () => Number.isInteger(indexDecimal.value),
+        (settled, wasSettled) => {
+          if (!settled || wasSettled !== false) return
+          if (disabledTabs[indexDecimal.value]) {
+            runOnJS(skipDisabledTab)(indexDecimal.value)
+          } else if (
+            controlledIndex.value >= 0 &&
+            indexDecimal.value !== controlledIndex.value
+          ) {
+            runOnJS(requestControlledTab)(indexDecimal.value)
+          }
+        },
+        [requestControlledTab, skipDisabledTab, disabledTabs]
+      )
+
+      const tabSwitchState = useSharedValue<TabSwitchState>('idle')
+      const debugEvents = useSharedValue<DebugEvent[] | null>(null)
+      const debugOverlays = useSharedValue(0)
+      const scrollTargets: ContextType['scrollTargets'] = useSharedValue({})
+
+      const dispatchTabSwitch = (event: TabSwitchEvent) => {
         'worklet'
+        tabSwitchState.value = getNextTabSwitchState(
+          tabSwitchState.value,
+          event
+        )
+      }
 
-        const name = tabNamesArray[index.value]
-        if (!name || !refMap[name] || syncInProgress.value || tabSwitchInProgress.value || isScrolling.value) return
-        
-        // 激进的防抖：大幅减少同步频率
-        const now = Date.now()
-        if (now - lastSyncTime.value < 100) return // 降到10fps
-        
-        syncInProgress.value = true
-        lastSyncTime.value = now
-        
-        // 直接执行，移除try-catch开销
-        scrollToImpl(refMap[name], 0, scrollYCurrent.value - contentInset, false)
-        syncInProgress.value = false
+      // once the pager rests on a tab, scroll it to the position we track for it
+      const syncFocusedTab = () => {
+        'worklet'
+        const name = tabNames.value[index.value]
+        if (!name || !refMap[name]) return false
+        const y = scrollY.value[name] || 0
+        logDebugEvent(debugEvents, `[${name}] sync focused tab`, y)
+        markScrollTarget(scrollTargets, name, y, y)
+        scrollToImpl(refMap[name], 0, y - contentInsets[name], false)
+        return true
       }
 
-      /*
-       * 终极性能策略：最小化同步操作
-       * 只在绝对必要时进行一次性同步
-       * */
-      const performCriticalSync = () => {
+      const reportPerformance = React.useCallback(
+        (report: PerformanceReport<TabName>) => {
+          onPerformanceReport?.(report)
+        },
+        [onPerformanceReport]
+      )
+
+      const reportLazyMount = React.useCallback(
+        (tabName: TabName, duration: number) => {
+          reportPerformance({ type: 'lazy-mount', tabName, duration })
+        },
+        [reportPerformance]
+      )
+
+      /**
+       * When the current switch started, 0 if there is none.
+       */
+      const switchStartedAt = useSharedValue(0)
+      const switchTrigger = useSharedValue<'press' | 'swipe'>('swipe')
+      const switchFromTab = useSharedValue('')
+      const droppedSyncs = useSharedValue(0)
+      const measurePerformance = !!onPerformanceReport
+
+      /**
+       * Pager frames of the current switch, and the average frame time of the
+       * last switches, for adaptive sync.
+       */
+      const switchFrames = useSharedValue(0)
+      const switchFrameTimes = useSharedValue<number[]>([])
+      const switchTarget = useSharedValue(0)
+      const syncLevel = useSharedValue<AdaptiveSyncLevel>('normal')
+      const isAdaptive = syncMode === 'adaptive'
+
+      /**
+       * Unfocused tabs to sync in the current switch, in batches, and the batch
+       * the lists sync now. A timing animation releases the batches one after
+       * another.
+       */
+      const syncBatches = useSharedValue<TabName[][]>([])
+      const syncBatch: ContextType['syncBatch'] = useSharedValue<TabName[]>([])
+      const syncBatchProgress = useSharedValue(0)
+
+      const startSwitch = (
+        trigger: 'press' | 'swipe',
+        target: number,
+        startedAt = Date.now()
+      ) => {
         'worklet'
-        // 只执行一次关键同步，避免重复操作
-        setTimeout(() => {
-          if (!tabSwitchInProgress.value && !isScrolling.value) {
-            syncCurrentTabScrollPosition()
-          }
-        }, 100) // 给切换动画足够时间
+        switchStartedAt.value = startedAt
+        switchTrigger.value = trigger
+        switchFromTab.value = tabNames.value[index.value]
+        droppedSyncs.value = 0
+        switchFrames.value = 0
+        switchTarget.value = target
+        syncLevel.value = isAdaptive
+          ? getAdaptiveSyncLevel(switchFrameTimes.value)
+          : 'normal'
       }
 
-      // 清理资源，避免内存泄漏
-      React.useEffect(() => {
-        return () => {
-          // 组件卸载时清理状态
-          tabSwitchInProgress.value = false
-          isScrolling.value = false
+      useAnimatedReaction(
+        () => indexDecimal.value,
+        (value, prev) => {
+          if (isAdaptive && switchStartedAt.value !== 0 && value !== prev) {
+            switchFrames.value += 1
+          }
+        },
+        [isAdaptive]
+      )
+
+      useAnimatedReaction(
+        () => Number.isInteger(indexDecimal.value),
+        (settled, wasSettled) => {
+          if (wasSettled === null || settled === wasSettled) return
+          if (!settled && switchStartedAt.value === 0) {
+            const direction = indexDecimal.value > index.value ? 1 : -1
+            const press = pressedTab.value
+            pressedTab.value = null
+            // an accepted press in controlled mode is timed from the press
+            if (press && Math.sign(press.index - index.value) === direction) {
+              startSwitch('press', press.index, press.at)
+            } else {
+              startSwitch('swipe', index.value + direction)
+            }
+          }
+
+          const prevState = tabSwitchState.value
+          dispatchTabSwitch(settled ? 'page-settle' : 'page-move')
+          // a list scrolling keeps us dragging, so the sync this event starts is skipped
+          if (prevState === 'dragging') droppedSyncs.value += 1
+
+          if (tabSwitchState.value === 'syncing') {
+            if (!syncFocusedTab()) droppedSyncs.value += 1
+            dispatchTabSwitch('sync-end')
+          }
+
+          if (!settled || switchStartedAt.value === 0) return
+          const tabName = tabNames.value[index.value]
+          const duration = Date.now() - switchStartedAt.value
+          if (isAdaptive && switchFrames.value > 0) {
+            switchFrameTimes.value = [
+              ...switchFrameTimes.value,
+              duration / switchFrames.value,
+            ].slice(-ADAPTIVE_SYNC_SAMPLES)
+          }
+          if (measurePerformance && tabName !== switchFromTab.value) {
+            runOnJS(reportPerformance)({
+              type: 'tab-switch',
+              prevTabName: switchFromTab.value,
+              tabName,
+              trigger: switchTrigger.value,
+              duration,
+              droppedSyncs: droppedSyncs.value,
+            })
+          }
+          switchStartedAt.value = 0
+        },
+        [
+          refMap,
+          contentInsets,
+          isAdaptive,
+          measurePerformance,
+          reportPerformance,
+        ]
+      )
+
+      // sync the unfocused tabs once the pager starts moving, hidden tabs aren't
+      // in `tabNames` and keep their position
+      useAnimatedReaction(
+        () => tabSwitchState.value === 'settling',
+        (isSyncNeeded, wasSyncNeeded) => {
+          if (!isSyncNeeded || isSyncNeeded === wasSyncNeeded) return
+          const batches = getSyncBatches(
+            tabNames.value,
+            index.value,
+            switchTarget.value,
+            syncLevel.value
+          )
+          syncBatches.value = batches
+          syncBatch.value = batches[0] ?? []
+          cancelAnimation(syncBatchProgress)
+          syncBatchProgress.value = 0
+          if (batches.length > 1) {
+            const { batchIntervalMs } = ADAPTIVE_SYNC_SETTINGS[syncLevel.value]
+            syncBatchProgress.value = withTiming(batches.length - 1, {
+              duration: batchIntervalMs * (batches.length - 1),
+              easing: Easing.linear,
+            })
+          }
+        }
+      )
+
+      useAnimatedReaction(
+        () => Math.floor(syncBatchProgress.value),
+        (batch, prevBatch) => {
+          if (prevBatch === null || batch <= prevBatch) return
+          // a dragged list moves the header, the rest wait for the next switch
+          if (tabSwitchState.value === 'dragging') {
+            cancelAnimation(syncBatchProgress)
+            return
+          }
+          syncBatch.value = syncBatches.value[batch] ?? []
         }
-      }, [])
+      )
 
       useAnimatedReaction(
         () => {
@@ -260,37 +829,49 @@ export const Container = React.memo(
           if (i !== index.value) {
             const prevScrollY = scrollY.value[tabNames.value[index.value]] || 0
             const nextScrollY = scrollY.value[tabNames.value[i]] || 0
-            
+
             // 更平滑的偏移计算，避免突然的跳转
             offset.value = prevScrollY - nextScrollY + offset.value
-            
-            propagateTabChange({
-              prevIndex: index.value,
-              index: i,
-              prevTabName: tabNames.value[index.value],
-              tabName: tabNames.value[i],
-            })
-            
+
+            const prevReveals =
+              tabCollapseOptions[tabNames.value[index.value]]
+                ?.revealHeaderOnScroll
+            const nextReveals =
+              tabCollapseOptions[tabNames.value[i]]?.revealHeaderOnScroll
+            if (nextReveals && !prevReveals) {
+              // keep the header where the previous tab left it
+              cancelAnimation(accDiffClamp)
+              accDiffClamp.value = Math.min(
+                Math.max(scrollYCurrent.value, 0),
+                headerScrollDistance.value
+              )
+            } else if (prevReveals && !nextReveals) {
+              // move the header from its revealed position to the next tab's
+              scrollYCurrent.value = accDiffClamp.value
+            }
+
+            // in controlled mode, swipes request the tab once they settle, and
+            // the tabs passed on the way to the controlled tab are no requests
+            if (controlledIndex.value < 0) {
+              propagateTabChange({
+                prevIndex: index.value,
+                index: i,
+                prevTabName: tabNames.value[index.value],
+                tabName: tabNames.value[i],
+              })
+            }
+
             index.value = i
-            
+
             // 优化动画过渡：使用更短的持续时间和更平滑的曲线
             if (typeof nextScrollY === 'number') {
               scrollYCurrent.value = withTiming(nextScrollY, {
                 duration: 100, // 减少到100ms，更快响应
               })
             }
-            
-            // 启动智能同步
-            tabSwitchInProgress.value = true
-            
-            // 使用新的极简同步机制
-            setTimeout(() => {
-              tabSwitchInProgress.value = false
-              performCriticalSync()
-            }, 50)
           }
         },
-        []
+        [tabCollapseOptions]
       )
 
       useAnimatedReaction(
@@ -304,10 +885,80 @@ export const Container = React.memo(
       )
 
       const headerTranslateY = useDerivedValue(() => {
-        return revealHeaderOnScroll
+        return tabCollapseOptions[focusedTab.value]?.revealHeaderOnScroll
           ? -accDiffClamp.value
           : -Math.min(scrollYCurrent.value, headerScrollDistance.value)
-      }, [revealHeaderOnScroll])
+      }, [tabCollapseOptions])
+
+      const headerOverscroll: ContextType['headerOverscroll'] =
+        useDerivedValue(() => {
+          return tabCollapseOptions[focusedTab.value]?.allowHeaderOverscroll
+            ? Math.max(0, -scrollYCurrent.value)
+            : 0
+        }, [tabCollapseOptions])
+
+      const headerOverscrollStylez = useAnimatedStyle(() => {
+        if (headerOverscrollMode === 'translate' || !headerHeight) return {}
+        // scale from the top edge, so the header fills the gap above the content
+        return {
+          transform: [
+            { translateY: -headerOverscroll.value / 2 },
+            { scale: (headerHeight + headerOverscroll.value) / headerHeight },
+          ],
+        }
+      }, [headerOverscrollMode, headerHeight])
+
+      const headerParallaxStylez = useAnimatedStyle(() => {
+        return {
+          transform: [
+            {
+              translateY:
+                Math.max(0, -headerTranslateY.value) * HEADER_PARALLAX_RATE,
+            },
+          ],
+        }
+      })
+
+      const headerCollapseProgress: ContextType['headerCollapseProgress'] =
+        useDerivedValue(() => {
+          if (headerScrollDistance.value <= 0) return 0
+          return Math.min(
+            1,
+            Math.max(0, -headerTranslateY.value / headerScrollDistance.value)
+          )
+        })
+
+      const notifyHeaderState = React.useCallback(
+        (collapsed: boolean) => {
+          if (collapsed) {
+            onHeaderCollapsed?.()
+          } else {
+            onHeaderExpanded?.()
+          }
+        },
+        [onHeaderCollapsed, onHeaderExpanded]
+      )
+
+      // only the fully collapsed and fully expanded states are reported, once per transition
+      const isHeaderCollapsed = useSharedValue<boolean | null>(null)
+      useAnimatedReaction(
+        () => {
+          if (headerCollapseProgress.value >= 1) return true
+          if (headerCollapseProgress.value <= 0) return false
+          return null
+        },
+        (collapsed) => {
+          if (collapsed === null || collapsed === isHeaderCollapsed.value) {
+            return
+          }
+          const isFirstState = isHeaderCollapsed.value === null
+          isHeaderCollapsed.value = collapsed
+          if (!isFirstState) {
+            runOnJS(notifyHeaderState)(collapsed)
+          }
+        },
+        [notifyHeaderState]
+      )
 
       const stylez = useAnimatedStyle(() => {
         return {
@@ -322,58 +973,144 @@ export const Container = React.memo(
       const onTabPress = React.useCallback(
         (name: TabName) => {
           const i = tabNames.value.findIndex((n) => n === name)
+          if (disabledTabs[i]) return
 
           if (name === focusedTab.value) {
             const ref = refMap[name]
+            markScrollTarget(
+              scrollTargets,
+              name,
+              scrollY.value[name] || 0,
+              headerScrollDistance.value
+            )
             scrollToImpl(
               ref,
               0,
-              headerScrollDistance.value - contentInset,
+              headerScrollDistance.value - contentInsets[name],
               true
             )
+          } else if (controlledIndex.value >= 0) {
+            // controlled mode: the parent decides whether to move by updating `focusedTabName`
+            pressedTab.value = { index: i, at: Date.now() }
+            requestControlledTab(i)
           } else {
-            // 终极优化：最简tab切换
-            tabSwitchInProgress.value = true
-            isScrolling.value = true
-            
+            startSwitch('press', i)
             containerRef.current?.setPage(i)
-            
-            // 最短延迟，最快恢复
-            setTimeout(() => {
-              tabSwitchInProgress.value = false
-              isScrolling.value = false
-            }, 100)
           }
         },
         // eslint-disable-next-line react-hooks/exhaustive-deps
-        [containerRef, refMap, contentInset]
+        [
+          containerRef,
+          refMap,
+          contentInsets,
+          requestControlledTab,
+          disabledTabs,
+        ]
       )
 
-      useAnimatedReaction(
-        () => tabNamesArray.length,
-        (tabLength) => {
-          if (index.value >= tabLength) {
-            onTabPress(tabNamesArray[tabLength - 1])
+      const scrollTabToImpl = (name: TabName, y: number, animated: boolean) => {
+        'worklet'
+        if (!refMap[name]) return
+        if (name !== focusedTab.value) {
+          // unfocused tabs ignore their scroll events, so track the position here
+          scrollY.value[name] = y
+        }
+        markScrollTarget(scrollTargets, name, scrollY.value[name] || 0, y)
+        scrollToImpl(refMap[name], 0, y - contentInsets[name], animated)
+      }
+
+      const moveHeader = (collapse: boolean, animated: boolean) => {
+        'worklet'
+        const target = collapse ? headerScrollDistance.value : 0
+        const reveals =
+          tabCollapseOptions[focusedTab.value]?.revealHeaderOnScroll
+        for (const name of tabNamesArray) {
+          const isFocused = name === focusedTab.value
+          const tabScrollY = scrollY.value[name] || 0
+          if (collapse) {
+            // every tab above the collapsed position would leave a gap under the header
+            if (tabScrollY < target) {
+              scrollTabToImpl(name, target, animated && isFocused)
+            }
+          } else if (!reveals) {
+            // the header follows the focused tab, the others only if they show it
+            if (
+              tabScrollY > 0 &&
+              (isFocused || tabScrollY <= headerScrollDistance.value)
+            ) {
+              scrollTabToImpl(name, 0, animated && isFocused)
+            }
           }
         }
-      )
 
-      const pageScrollHandler = usePageScrollHandler({
-        onPageScroll: (e) => {
+        if (reveals) {
+          cancelAnimation(accDiffClamp)
+          accDiffClamp.value = animated ? withTiming(target) : target
+        }
+        snappingTo.value = target
+      }
+
+      // keep the focused tab when tabs are hidden or shown
+      const prevTabNamesArray = React.useRef(tabNamesArray)
+      React.useEffect(() => {
+        const prevNames = prevTabNamesArray.current
+        prevTabNamesArray.current = tabNamesArray
+        if (prevNames === tabNamesArray) return
+
+        const prevIndex = index.value
+        const prevTabName = prevNames[prevIndex]
+        let i = tabNamesArray.indexOf(prevTabName)
+        if (i < 0) {
+          // the focused tab is gone, focus the closest enabled one
+          i = Math.min(prevIndex, tabNamesArray.length - 1)
+          while (i > 0 && disabledTabs[i]) i--
+        }
+        if (i < 0 || (i === prevIndex && tabNamesArray[i] === prevTabName)) {
+          return
+        }
+
+        calculateNextOffset.value = i
+        index.value = i
+        indexDecimal.value = i
+        containerRef.current?.setPageWithoutAnimation(i)
+        if (tabNamesArray[i] !== prevTabName) {
+          scrollYCurrent.value = scrollY.value[tabNamesArray[i]] || 0
+          propagateTabChange({
+            prevIndex,
+            index: i,
+            prevTabName,
+            tabName: tabNamesArray[i],
+          })
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+      }, [tabNamesArray])
+
+      const onPageScroll = React.useCallback(
+        (position: number, pageOffset: number) => {
           'worklet'
-          indexDecimal.value = e.position + e.offset
+          // hidden tabs are the last pages, go back if the pager lands on one
+          const lastIndex = tabNames.value.length - 1
+          if (position + pageOffset > lastIndex) {
+            indexDecimal.value = lastIndex
+            if (pageOffset === 0) runOnJS(skipDisabledTab)(position)
+            return
+          }
+          indexDecimal.value = position + pageOffset
         },
-      })
+        [indexDecimal, tabNames, skipDisabledTab]
+      )
 
       React.useImperativeHandle(
         ref,
         () => ({
           setIndex: (index) => {
             const name = tabNames.value[index]
+            if (disabledTabs[index]) return false
             onTabPress(name)
             return true
           },
           jumpToTab: (name) => {
+            if (tabProps.get(name)?.disabled) return false
             onTabPress(name)
             return true
           },
@@ -383,42 +1120,134 @@ export const Container = React.memo(
           getCurrentIndex: () => {
             return index.value
           },
+          collapseHeader: ({ animated = true } = {}) => {
+            runOnUI(moveHeader)(true, animated)
+          },
+          expandHeader: ({ animated = true } = {}) => {
+            runOnUI(moveHeader)(false, animated)
+          },
+          scrollToTop: (name) => {
+            const tabName = name ?? tabNames.value[index.value]
+            if (!refMap[tabName]) return false
+            runOnUI(scrollTabToImpl)(tabName, 0, true)
+            return true
+          },
+          scrollTabTo: (name, y, { animated = true } = {}) => {
+            if (!refMap[name]) return false
+            runOnUI(scrollTabToImpl)(name, y, animated)
+            return true
+          },
+          getState: () => {
+            return {
+              focusedTab: tabNames.value[index.value],
+              scrollY: Object.fromEntries(
+                tabNames.value.map((name) => [name, scrollY.value[name] || 0])
+              ),
+              accDiffClamp: accDiffClamp.value,
+            }
+          },
         }),
         // eslint-disable-next-line react-hooks/exhaustive-deps
-        [onTabPress]
+        [
+          onTabPress,
+          refMap,
+          contentInsets,
+          tabCollapseOptions,
+          disabledTabs,
+          tabProps,
+        ]
       )
 
+      const tabBar =
+        renderTabBar &&
+        renderTabBar({
+          containerRef,
+          index,
+          tabNames: tabNamesArray,
+          focusedTab,
+          indexDecimal,
+          width,
+          onTabPress,
+          tabProps,
+        })
+
+      const headerProps = {
+        containerRef,
+        index,
+        tabNames: tabNamesArray,
+        focusedTab,
+        indexDecimal,
+        onTabPress,
+        tabProps,
+      }
+
+      const header = renderHeader && renderHeader(headerProps)
+
+      const childrenArray = React.Children.toArray(
+        children
+      ) as React.ReactElement<TabProps<TabName>>[]
+
+      const hasTabHeaders = tabNamesArray.some(
+        (name) => !!tabProps.get(name)?.renderHeader
+      )
+
+      const contextValue: ContextType = {
+        contentInset,
+        contentInsets,
+        tabCollapseOptions,
+        tabProps,
+        tabBarHeight,
+        tabBarPosition,
+        headerHeight,
+        refMap,
+        tabNames,
+        index,
+        snapThreshold,
+        snapPoints,
+        snapVelocityThreshold,
+        syncStrategy,
+        syncBatch,
+        debugEvents,
+        debugOverlays,
+        scrollTargets,
+        revealHeaderOnScroll,
+        focusedTab,
+        accDiffClamp,
+        indexDecimal,
+        containerHeight,
+        minHeaderHeight,
+        scrollYCurrent,
+        scrollY,
+        setRef,
+        headerScrollDistance,
+        accScrollY,
+        oldAccScrollY,
+        offset,
+        snappingTo,
+        contentHeights,
+        headerTranslateY,
+        headerCollapseProgress,
+        headerOverscroll,
+        width,
+        allowHeaderOverscroll,
+        tabSwitchState,
+      }
+
+      /**
+       * The scrollables of a tab follow its own collapse options, and need room
+       * for its header section.
+       */
+      const getTabContextValue = (name: TabName): ContextType => {
+        return {
+          ...contextValue,
+          ...tabCollapseOptions[name],
+          headerHeight: (headerHeight || 0) + (tabHeaderHeights[name] || 0),
+          contentInset: contentInsets[name],
+        }
+      }
+
       return (
-        <Context.Provider
-          value={{
-            contentInset,
-            tabBarHeight,
-            headerHeight,
-            refMap,
-            tabNames,
-            index,
-            snapThreshold,
-            revealHeaderOnScroll,
-            focusedTab,
-            accDiffClamp,
-            indexDecimal,
-            containerHeight,
-            minHeaderHeight,
-            scrollYCurrent,
-            scrollY,
-            setRef,
-            headerScrollDistance,
-            accScrollY,
-            oldAccScrollY,
-            offset,
-            snappingTo,
-            contentHeights,
-            headerTranslateY,
-            width,
-            allowHeaderOverscroll,
-            isScrolling,
-          }}
-        >
+        <Context.Provider value={contextValue}>
           <Animated.View
             style={[styles.container, { width }, containerStyle]}
             onLayout={getContainerLayoutHeight}
@@ -432,75 +1261,117 @@ export const Container = React.memo(
                 !cancelTranslation && stylez,
               ]}
             >
-              <View
-                style={[styles.container, styles.headerContainer]}
+              <Animated.View
+                style={[
+                  styles.container,
+                  styles.headerContainer,
+                  headerOverscrollMode === 'parallax' && styles.clip,
+                  headerOverscrollStylez,
+                ]}
                 onLayout={getHeaderHeight}
                 pointerEvents="box-none"
               >
-                {renderHeader &&
-                  renderHeader({
-                    containerRef,
-                    index,
-                    tabNames: tabNamesArray,
-                    focusedTab,
-                    indexDecimal,
-                    onTabPress,
-                    tabProps,
-                  })}
-              </View>
-              <View
-                style={[styles.container, styles.tabBarContainer]}
-                onLayout={getTabBarHeight}
-                pointerEvents="box-none"
-              >
-                {renderTabBar &&
-                  renderTabBar({
-                    containerRef,
-                    index,
-                    tabNames: tabNamesArray,
-                    focusedTab,
-                    indexDecimal,
-                    width,
-                    onTabPress,
-                    tabProps,
-                  })}
-              </View>
+                {headerOverscrollMode === 'parallax' ? (
+                  <Animated.View
+                    style={headerParallaxStylez}
+                    pointerEvents="box-none"
+                  >
+                    {header}
+                  </Animated.View>
+                ) : (
+                  header
+                )}
+              </Animated.View>
+              {hasTabHeaders && (
+                <TabHeaders
+                  headerProps={headerProps}
+                  height={tabHeaderHeight}
+                  onHeightChange={onTabHeaderHeightChange}
+                />
+              )}
+              {tabBarPosition === 'top' && (
+                <View
+                  style={[styles.container, styles.tabBarContainer]}
+                  onLayout={getTabBarHeight}
+                  pointerEvents="box-none"
+                >
+                  {tabBar}
+                </View>
+              )}
             </Animated.View>
 
-            <AnimatedPagerView
+            <PagerComponent
               ref={containerRef}
-              onPageScroll={pageScrollHandler}
+              onPageScroll={onPageScroll}
               initialPage={initialIndex}
               {...pagerProps}
               style={[pagerProps?.style, StyleSheet.absoluteFill]}
             >
-              {tabNamesArray.map((tabName, i) => {
+              {[...tabNamesArray, ...hiddenTabNames].map((tabName, i) => {
+                const isHidden = i >= tabNamesArray.length
                 return (
-                  <View key={i} style={styles.pageContainer}>
-                    <TabNameContext.Provider value={tabName}>
-                      <Lazy
-                        startMounted={lazy ? undefined : true}
-                        cancelLazyFadeIn={!lazy ? true : !!cancelLazyFadeIn}
-                        // ensure that we remount the tab if its name changes but the index doesn't
-                        key={tabName}
-                      >
-                        {
-                          React.Children.toArray(children)[
-                            i
-                          ] as React.ReactElement
-                        }
-                      </Lazy>
-                    </TabNameContext.Provider>
+                  // keyed by name, so hiding or showing a tab only moves its page,
+                  // hidden ones stay mounted out of sight after the others
+                  <View
+                    key={tabName}
+                    style={[
+                      styles.pageContainer,
+                      isHidden && styles.hiddenPage,
+                    ]}
+                    pointerEvents={isHidden ? 'none' : 'auto'}
+                  >
+                    <Context.Provider value={getTabContextValue(tabName)}>
+                      <TabNameContext.Provider value={tabName}>
+                        <Lazy
+                          startMounted={lazy && !isHidden ? undefined : true}
+                          cancelLazyFadeIn={!lazy ? true : !!cancelLazyFadeIn}
+                          unmounted={unmountedTabs.has(tabName)}
+                          preloadDistance={lazy ? preloadDistance : 0}
+                          renderLazyPlaceholder={renderLazyPlaceholder}
+                          transition={lazyTransition}
+                          onMount={
+                            lazy && onPerformanceReport
+                              ? reportLazyMount
+                              : undefined
+                          }
+                          // ensure that we remount the tab if its name changes but the index doesn't
+                          key={tabName}
+                        >
+                          {
+                            childrenArray.find(
+                              (child) => child.props.name === tabName
+                            ) as React.ReactElement
+                          }
+                        </Lazy>
+                      </TabNameContext.Provider>
+                    </Context.Provider>
                   </View>
                 )
               })}
-            </AnimatedPagerView>
+            </PagerComponent>
+            {tabBarPosition === 'bottom' && (
+              <View
+                style={styles.bottomTabBarContainer}
+                onLayout={getTabBarHeight}
+                pointerEvents="box-none"
+              >
+                {tabBar}
+              </View>
+            )}
+            {debug && <DebugOverlay />}
           </Animated.View>
         </Context.Provider>
       )
     }
   )
-)
+) as <C extends PagerComponent<any, any> = DefaultPagerComponent>(
+  p: CollapsibleProps<C> & React.RefAttributes<CollapsibleRef>
+) => React.ReactElement
+
+/**
+ * Speed of the header content relative to the tabs in `parallax` mode.
+ */
+const HEADER_PARALLAX_RATE = 0.5
 
 const styles = StyleSheet.create({
   container: {
@@ -527,7 +1398,20 @@ const styles = StyleSheet.create({
   tabBarContainer: {
     zIndex: 1,
   },
+  hiddenPage: {
+    opacity: 0,
+  },
+  bottomTabBarContainer: {
+    position: 'absolute',
+    bottom: 0,
+    width: '100%',
+    zIndex: 100,
+    backgroundColor: 'white',
+  },
   headerContainer: {
     zIndex: 2,
   },
+  clip: {
+    overflow: 'hidden',
+  },
 })
@@ -0,0 +1,147 @@
+import React from 'react'
+import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native'
+import { runOnJS, runOnUI, useSharedValue } from 'react-native-reanimated'
+
+import { DEBUG_SNAPSHOT_INTERVAL_MS } from './helpers'
+import { useTabsContext } from './hooks'
+import { DebugEvent, TabName, TabSwitchState } from './types'
+
+type DebugSnapshot = {
+  scrollYCurrent: number
+  scrollY: Record<TabName, number>
+  accDiffClamp: number
+  offset: number
+  snappingTo: number
+  indexDecimal: number
+  contentHeights: number[]
+  tabSwitchState: TabSwitchState
+  tabNames: TabName[]
+  events: DebugEvent[]
+}
+
+const format = (value: number | undefined) => (value ?? 0).toFixed(1)
+
+/**
+ * Shows the live collapse and sync state of the container, and the last scroll
+ * and snap events with their debug keys. Render it inside the container, for
+ * example in the header, or use the `debug` prop of the container.
+ */
+export const DebugOverlay: React.FC<{
+  style?: StyleProp<ViewStyle>
+}> = ({ style }) => {
+  const {
+    scrollYCurrent,
+    scrollY,
+    accDiffClamp,
+    offset,
+    snappingTo,
+    indexDecimal,
+    contentHeights,
+    tabSwitchState,
+    tabNames,
+    debugEvents,
+    debugOverlays,
+  } = useTabsContext()
+
+  const [snapshot, setSnapshot] = React.useState<DebugSnapshot | null>(null)
+
+  // events are only logged while an overlay shows them
+  React.useEffect(() => {
+    if (debugOverlays.value === 0) debugEvents.value = []
+    debugOverlays.value += 1
+    return () => {
+      debugOverlays.value -= 1
+      if (debugOverlays.value === 0) debugEvents.value = null
+    }
+  }, [debugEvents, debugOverlays])
+
+  const lastSnapshotKey = useSharedValue('')
+
+  // read the state on the UI thread a few times per second instead of on every
+  // frame, and only hand it to JS when it changed
+  React.useEffect(() => {
+    const updateSnapshot = () => {
+      'worklet'
+      const next: DebugSnapshot = {
+        scrollYCurrent: scrollYCurrent.value,
+        scrollY: { ...scrollY.value },
+        accDiffClamp: accDiffClamp.value,
+        offset: offset.value,
+        snappingTo: snappingTo.value,
+        indexDecimal: indexDecimal.value,
+        contentHeights: contentHeights.value,
+        tabSwitchState: tabSwitchState.value,
+        tabNames: tabNames.value,
+        events: debugEvents.value ?? [],
+      }
+      const key = JSON.stringify(next)
+      if (key === lastSnapshotKey.value) return
+      lastSnapshotKey.value = key
+      runOnJS(setSnapshot)(next)
+    }
+    runOnUI(updateSnapshot)()
+    const interval = setInterval(
+      () => runOnUI(updateSnapshot)(),
+      DEBUG_SNAPSHOT_INTERVAL_MS
+    )
+    return () => clearInterval(interval)
+  }, [
+    scrollYCurrent,
+    scrollY,
+    accDiffClamp,
+    offset,
+    snappingTo,
+    indexDecimal,
+    contentHeights,
+    tabSwitchState,
+    tabNames,
+    debugEvents,
+    lastSnapshotKey,
+  ])
+
+  if (!snapshot) return null
+
+  return (
+    <View pointerEvents="none" style={[styles.container, style]}>
+      <Text style={styles.text}>
+        {`index ${snapshot.indexDecimal.toFixed(2)} · ${snapshot.tabSwitchState}`}
+      </Text>
+      <Text style={styles.text}>
+        {`scrollYCurrent ${format(snapshot.scrollYCurrent)} · offset ${format(snapshot.offset)}`}
+      </Text>
+      <Text style={styles.text}>
+        {`accDiffClamp ${format(snapshot.accDiffClamp)} · snappingTo ${format(snapshot.snappingTo)}`}
+      </Text>
+      {snapshot.tabNames.map((name, i) => (
+        <Text key={name} style={styles.text}>
+          {`${name}: scrollY ${format(snapshot.scrollY[name])} · height ${format(snapshot.contentHeights[i])}`}
+        </Text>
+      ))}
+      {snapshot.events.map((event, i) => (
+        <Text key={i} style={[styles.text, styles.event]}>
+          {`${event.debugKey} y: ${format(event.y)}${event.count > 1 ? ` ×${event.count}` : ''}`}
+        </Text>
+      ))}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 8,
+    right: 8,
+    bottom: 8,
+    padding: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+  },
+  text: {
+    color: 'white',
+    fontSize: 10,
+    fontVariant: ['tabular-nums'],
+  },
+  event: {
+    opacity: 0.7,
+  },
+})
@@ -111,10 +111,15 @@ function FlashListImpl<R>(
     () => [
       {
         paddingTop: contentContainerStyle.paddingTop,
+        paddingBottom: contentContainerStyle.paddingBottom,
       },
       _contentContainerStyle,
     ],
-    [_contentContainerStyle, contentContainerStyle.paddingTop]
+    [
+      _contentContainerStyle,
+      contentContainerStyle.paddingTop,
+      contentContainerStyle.paddingBottom,
+    ]
   )
 
   const refWorkaround = useCallback(
@@ -1,14 +1,52 @@
 import React, { useCallback } from 'react'
-import { StyleSheet } from 'react-native'
+import { InteractionManager, StyleSheet } from 'react-native'
 import Animated, {
+  runOnJS,
   useSharedValue,
   useAnimatedReaction,
   withTiming,
   useAnimatedStyle,
+  useReducedMotion,
 } from 'react-native-reanimated'
 
 import { ScrollView } from './ScrollView'
 import { useScroller, useTabNameContext, useTabsContext } from './hooks'
+import {
+  LazyPlaceholderProps,
+  LazyTransition,
+  LazyTransitionPreset,
+  LazyTransitionStyle,
+  TabName,
+} from './types'
+
+const TRANSITION_STYLES: Record<
+  Exclude<LazyTransitionPreset, 'none'>,
+  LazyTransitionStyle
+> = {
+  fade: (progress) => {
+    'worklet'
+    return { opacity: progress }
+  },
+  'slide-up': (progress) => {
+    'worklet'
+    return {
+      opacity: progress,
+      transform: [{ translateY: (1 - progress) * 24 }],
+    }
+  },
+  scale: (progress) => {
+    'worklet'
+    return {
+      opacity: progress,
+      transform: [{ scale: 0.95 + progress * 0.05 }],
+    }
+  },
+}
+
+const getTransitionConfig = (
+  transition: LazyTransition
+): Exclude<LazyTransition, LazyTransitionPreset> =>
+  typeof transition === 'string' ? { style: transition } : transition
 
 /**
  * Typically used internally, but if you want to mix lazy and regular screens you can wrap the lazy ones with this component.
@@ -26,15 +64,58 @@ export const Lazy: React.FC<{
    * Whether to start mounted. Defaults to true if we are the focused tab.
    */
   startMounted?: boolean
+  /**
+   * Whether to unmount the children. They mount again once this is false and
+   * the tab is focused, or right away with `startMounted`.
+   */
+  unmounted?: boolean
+  /**
+   * Mount in the background when the focused tab is at most this many tabs
+   * away. Defaults to 0.
+   */
+  preloadDistance?: number
+  /**
+   * Rendered inside a `Tabs.ScrollView` until the children mount.
+   */
+  renderLazyPlaceholder?: (
+    props: LazyPlaceholderProps
+  ) => React.ReactElement | null
+  /**
+   * How the children appear once mounted. Defaults to `fade`.
+   */
+  transition?: LazyTransition
+  /**
+   * Called each time the children mount, with how long it took from rendering
+   * them until they were committed.
+   */
+  onMount?: (name: TabName, duration: number) => void
   children: React.ReactElement
 }> = ({
   children,
   cancelLazyFadeIn,
   startMounted: _startMounted,
   mountDelayMs = 50,
+  unmounted = false,
+  preloadDistance = 0,
+  renderLazyPlaceholder,
+  transition = 'fade',
+  onMount,
 }) => {
   const name = useTabNameContext()
-  const { focusedTab, refMap } = useTabsContext()
+  const { focusedTab, refMap, index, tabNames, tabProps } = useTabsContext()
+
+  const {
+    style: transitionStyle = 'fade',
+    duration,
+    easing,
+  } = getTransitionConfig(transition)
+  const reduceMotion = useReducedMotion()
+  const cancelTransition =
+    !!cancelLazyFadeIn || reduceMotion || transitionStyle === 'none'
+  const getTransitionStyle =
+    typeof transitionStyle === 'function'
+      ? transitionStyle
+      : TRANSITION_STYLES[transitionStyle === 'none' ? 'fade' : transitionStyle]
 
   /**
    * We keep track of whether a layout has been triggered
@@ -54,6 +135,7 @@ export const Lazy: React.FC<{
    * Initialize based on startMounted prop or focused state
    */
   const [canMount, setCanMount] = React.useState(() => {
+    if (unmounted) return false
     // 如果 _startMounted 是 boolean 类型，直接使用它的值
     if (typeof _startMounted === 'boolean') {
       // console.log(`[Lazy] Tab ${name}: startMounted=${_startMounted}, initialCanMount=${_startMounted}`)
@@ -68,11 +150,11 @@ export const Lazy: React.FC<{
    * Ensure we don't mount after the component has been unmounted
    */
   const isSelfMounted = React.useRef(true)
-  let initialOpacity = 1
-  if (!cancelLazyFadeIn && !shouldStartMounted) {
-    initialOpacity = 0
+  let initialProgress = 1
+  if (!cancelTransition && !shouldStartMounted) {
+    initialProgress = 0
   }
-  const opacity = useSharedValue(initialOpacity)
+  const progress = useSharedValue(initialProgress)
 
   React.useEffect(() => {
     return () => {
@@ -83,7 +165,7 @@ export const Lazy: React.FC<{
   // 监听 startMounted 属性变化，确保 lazy={false} 立即生效
   React.useEffect(() => {
     // 如果明确设置了 startMounted 为 true（即 lazy={false}），立即挂载
-    if (_startMounted === true && !canMount) {
+    if (_startMounted === true && !canMount && !unmounted) {
       setCanMount(true)
     }
     // 如果明确设置了 startMounted 为 false（即强制懒加载），只在聚焦时挂载
@@ -91,7 +173,12 @@ export const Lazy: React.FC<{
       // 如果当前不是聚焦标签页且强制设置为 false，则不挂载
       // 注意：这里不设置 setCanMount(false)，因为一旦挂载就不应该卸载
     }
-  }, [_startMounted, canMount, focusedTab.value, name])
+  }, [_startMounted, canMount, focusedTab.value, name, unmounted])
+
+  // unmount, so that focusing the tab again mounts it like the first time
+  React.useEffect(() => {
+    if (unmounted) setCanMount(false)
+  }, [unmounted])
 
   const startMountTimer = React.useCallback(
     (focusedTab: string) => {
@@ -105,14 +192,36 @@ export const Lazy: React.FC<{
     [mountDelayMs, name]
   )
 
+  const preloadMount = React.useCallback(() => {
+    // don't compete with the swipe that brought the tab in range
+    InteractionManager.runAfterInteractions(() => {
+      if (isSelfMounted.current) setCanMount(true)
+    })
+  }, [])
+
+  useAnimatedReaction(
+    () => {
+      return (
+        preloadDistance > 0 &&
+        Math.abs(index.value - tabNames.value.indexOf(name)) <= preloadDistance
+      )
+    },
+    (inRange, wasInRange) => {
+      if (inRange && !wasInRange && !canMount && !unmounted) {
+        runOnJS(preloadMount)()
+      }
+    },
+    [preloadDistance, name, canMount, unmounted, preloadMount]
+  )
+
   useAnimatedReaction(
     () => {
       return focusedTab.value === name
     },
     (focused, wasFocused) => {
       if (focused && !wasFocused && !canMount) {
-        if (cancelLazyFadeIn) {
-          opacity.value = 1
+        if (cancelTransition) {
+          progress.value = 1
           setCanMount(true)
         } else {
           startMountTimer(focusedTab.value)
@@ -122,6 +231,22 @@ export const Lazy: React.FC<{
     [canMount, focusedTab]
   )
 
+  const isChildrenMounted = canMount && !unmounted
+  const mountStartedAt = React.useRef(0)
+  if (isChildrenMounted && mountStartedAt.current === 0) {
+    mountStartedAt.current = Date.now()
+  }
+
+  React.useEffect(() => {
+    if (!isChildrenMounted) {
+      mountStartedAt.current = 0
+      return
+    }
+    onMount?.(name, Date.now() - mountStartedAt.current)
+    // only report when the children mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isChildrenMounted])
+
   const scrollTo = useScroller()
 
   const ref = name ? refMap[name] : null
@@ -132,38 +257,39 @@ export const Lazy: React.FC<{
     },
     (isMounted, wasMounted) => {
       if (isMounted && !wasMounted) {
-        if (!cancelLazyFadeIn && opacity.value !== 1) {
-          opacity.value = withTiming(1)
+        if (!cancelTransition && progress.value !== 1) {
+          progress.value = withTiming(1, { duration, easing })
         }
       }
     },
-    [ref, cancelLazyFadeIn, name, didTriggerLayout, scrollTo]
+    [ref, cancelTransition, name, didTriggerLayout, scrollTo, duration, easing]
   )
 
   const stylez = useAnimatedStyle(() => {
-    return {
-      opacity: opacity.value,
-    }
-  }, [opacity])
+    return getTransitionStyle(progress.value)
+  }, [progress, getTransitionStyle])
 
   const onLayout = useCallback(() => {
     didTriggerLayout.value = true
   }, [didTriggerLayout])
 
-  return canMount ? (
-    cancelLazyFadeIn ? (
+  return isChildrenMounted ? (
+    cancelTransition ? (
       children
     ) : (
       <Animated.View
         pointerEvents="box-none"
-        style={[styles.container, !cancelLazyFadeIn ? stylez : undefined]}
+        style={[styles.container, !cancelTransition ? stylez : undefined]}
         onLayout={onLayout}
       >
         {children}
       </Animated.View>
     )
   ) : (
-    <ScrollView />
+    // a scroll view, so the header keeps collapsing and syncing until the tab mounts
+    <ScrollView>
+      {renderLazyPlaceholder?.({ name, label: tabProps.get(name)?.label })}
+    </ScrollView>
   )
 }
 
@@ -6,7 +6,6 @@ import {
 } from 'react-native'
 import Animated, {
   cancelAnimation,
-  scrollTo,
   useAnimatedReaction,
   useAnimatedRef,
   useAnimatedScrollHandler,
@@ -17,6 +16,7 @@ import Animated, {
 import { Indicator } from './Indicator'
 import { MaterialTabItem } from './TabItem'
 import { MaterialTabBarProps, ItemLayout } from './types'
+import { scrollToImpl } from '../helpers'
 import { TabName } from '../types'
 
 export const TABBAR_HEIGHT = 48
@@ -59,6 +59,10 @@ const MaterialTabBar = <T extends TabName = TabName>({
   tabStyle,
   width: customWidth,
   keepActiveTabCentered,
+  badgeStyle,
+  badgeTextStyle,
+  maxBadgeCount,
+  itemLayout,
 }: MaterialTabBarProps<T>): React.ReactElement => {
   const tabBarRef = useAnimatedRef<Animated.ScrollView>()
   const windowWidth = useWindowDimensions().width
@@ -172,7 +176,7 @@ const MaterialTabBar = <T extends TabName = TabName>({
           offset < tabsOffset.value ||
           offset > tabsOffset.value + width - 2 * halfTab
         ) {
-          scrollTo(tabBarRef, offset - width / 2 + halfTab, 0, true)
+          scrollToImpl(tabBarRef, offset - width / 2 + halfTab, 0, true)
         }
       }
     },
@@ -206,6 +210,13 @@ const MaterialTabBar = <T extends TabName = TabName>({
             index={i}
             name={name}
             label={tabProps.get(name)?.label || getLabelText(name)}
+            disabled={tabProps.get(name)?.disabled}
+            badge={tabProps.get(name)?.badge}
+            badgeStyle={badgeStyle}
+            badgeTextStyle={badgeTextStyle}
+            maxBadgeCount={maxBadgeCount}
+            icon={tabProps.get(name)?.icon}
+            itemLayout={itemLayout}
             onPress={onTabPress}
             onLayout={
               scrollEnabled
@@ -1,16 +1,64 @@
 import React, { useMemo } from 'react'
-import { StyleSheet, Pressable, Platform } from 'react-native'
+import {
+  StyleSheet,
+  Pressable,
+  Platform,
+  StyleProp,
+  Text,
+  TextStyle,
+  View,
+  ViewStyle,
+} from 'react-native'
 import Animated, {
   Extrapolation,
   interpolate,
   useAnimatedStyle,
+  useDerivedValue,
 } from 'react-native-reanimated'
 
 import { MaterialTabItemProps } from './types'
-import { TabName } from '../types'
+import { useConvertAnimatedToValue } from '../hooks'
+import { TabItemProps, TabName } from '../types'
 
 export const TABBAR_HEIGHT = 48
 const DEFAULT_COLOR = 'rgba(0, 0, 0, 1)'
+const DEFAULT_MAX_BADGE_COUNT = 99
+
+/**
+ * Text shown in the badge, `null` for a dot, `undefined` for no badge.
+ */
+const getBadgeText = (
+  badge: TabItemProps<TabName>['badge'],
+  maxCount: number
+): string | null | undefined => {
+  if (badge === true) return null
+  if (typeof badge === 'number') {
+    if (badge <= 0) return undefined
+    return badge > maxCount ? `${maxCount}+` : String(badge)
+  }
+  return badge || undefined
+}
+
+const Badge: React.FC<{
+  text: string | null
+  style?: StyleProp<ViewStyle>
+  textStyle?: StyleProp<TextStyle>
+}> = ({ text, style, textStyle }) => {
+  return (
+    <View
+      style={[styles.badge, text === null && styles.badgeDot, style]}
+      // the tab item announces the badge
+      importantForAccessibility="no-hide-descendants"
+      accessibilityElementsHidden
+    >
+      {text !== null && (
+        <Text style={[styles.badgeText, textStyle]} numberOfLines={1}>
+          {text}
+        </Text>
+      )}
+    </View>
+  )
+}
 
 /**
  * Any additional props are passed to the pressable component.
@@ -33,9 +81,19 @@ export const MaterialTabItem = <T extends TabName = string>(
     inactiveOpacity = 0.7,
     pressColor = '#DDDDDD',
     pressOpacity = Platform.OS === 'ios' ? 0.2 : 1,
+    disabled,
+    disabledOpacity = 0.3,
+    badge,
+    badgeStyle,
+    badgeTextStyle,
+    maxBadgeCount = DEFAULT_MAX_BADGE_COUNT,
+    icon,
+    itemLayout = 'icon-top',
     ...rest
   } = props
 
+  const badgeText = getBadgeText(badge, maxBadgeCount)
+
   const stylez = useAnimatedStyle(() => {
     return {
       opacity: interpolate(
@@ -51,6 +109,28 @@ export const MaterialTabItem = <T extends TabName = string>(
     }
   })
 
+  const iconStylez = useAnimatedStyle(() => {
+    return {
+      opacity: interpolate(
+        indexDecimal.value,
+        [index - 1, index, index + 1],
+        [inactiveOpacity, 1, inactiveOpacity],
+        Extrapolation.CLAMP
+      ),
+    }
+  })
+
+  // the icon render function gets the same colour as the label
+  const focused =
+    useConvertAnimatedToValue(
+      useDerivedValue(() =>
+        Math.abs(index - indexDecimal.value) < 0.5 ? 1 : 0
+      )
+    ) === 1
+
+  const showIcon = !!icon && itemLayout !== 'label'
+  const showLabel = !icon || itemLayout !== 'icon'
+
   const renderedLabel = useMemo(() => {
     if (typeof label === 'string') {
       return (
@@ -63,23 +143,65 @@ export const MaterialTabItem = <T extends TabName = string>(
     return label(props)
   }, [label, labelStyle, props, stylez])
 
+  const renderedIcon = showIcon ? (
+    <Animated.View style={[styles.icon, iconStylez]}>
+      {typeof icon === 'function'
+        ? icon({
+            focused,
+            color: focused ? activeColor : inactiveColor,
+            indexDecimal,
+          })
+        : icon}
+    </Animated.View>
+  ) : null
+
+  const content = showIcon ? (
+    <View style={itemLayout === 'icon-start' ? styles.row : styles.column}>
+      {renderedIcon}
+      {showLabel && renderedLabel}
+    </View>
+  ) : (
+    renderedLabel
+  )
+
   return (
     <Pressable
       onLayout={onLayout}
       style={({ pressed }) => [
-        { opacity: pressed ? pressOpacity : 1 },
+        { opacity: disabled ? disabledOpacity : pressed ? pressOpacity : 1 },
         !scrollEnabled && styles.grow,
         styles.item,
         style,
       ]}
       onPress={() => onPress(name)}
+      disabled={disabled}
       android_ripple={{
         borderless: true,
         color: pressColor,
       }}
+      accessibilityLabel={
+        !showLabel && typeof label === 'string' ? label : undefined
+      }
+      accessibilityValue={
+        badgeText !== undefined
+          ? { text: typeof badge === 'boolean' ? 'new' : String(badge) }
+          : undefined
+      }
       {...rest}
     >
-      {renderedLabel}
+      {badgeText !== undefined ? (
+        // inline, so a scrollable tab bar measures the badge with the item
+        <View style={styles.row}>
+          {content}
+          <Badge
+            text={badgeText}
+            style={badgeStyle}
+            textStyle={badgeTextStyle}
+          />
+        </View>
+      ) : (
+        content
+      )}
     </Pressable>
   )
 }
@@ -97,4 +219,36 @@ const styles = StyleSheet.create({
   label: {
     margin: 4,
   },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  column: {
+    alignItems: 'center',
+  },
+  icon: {
+    margin: 2,
+  },
+  badge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 5,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#E53935',
+  },
+  badgeDot: {
+    minWidth: 8,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    paddingHorizontal: 0,
+    marginTop: -8,
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
 })
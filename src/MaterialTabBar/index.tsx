@@ -1,3 +1,7 @@
 export { MaterialTabBar, TABBAR_HEIGHT } from './TabBar'
 export { MaterialTabItem } from './TabItem'
-export type { MaterialTabBarProps, MaterialTabItemProps } from './types'
+export type {
+  MaterialTabBarProps,
+  MaterialTabItemProps,
+  MaterialTabItemLayout,
+} from './types'
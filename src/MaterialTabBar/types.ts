@@ -13,6 +13,12 @@ import { TabBarProps, TabName, TabItemProps } from '../types'
 type AnimatedStyle = StyleProp<Animated.AnimateStyle<ViewStyle>>
 type AnimatedTextStyle = StyleProp<Animated.AnimateStyle<TextStyle>>
 
+/**
+ * Where the icon goes relative to the label. `label` and `icon` show only one
+ * of them. Tabs without an icon always show their label.
+ */
+export type MaterialTabItemLayout = 'label' | 'icon' | 'icon-top' | 'icon-start'
+
 export type MaterialTabItemProps<T extends TabName> = TabItemProps<T> & {
   onPress: (name: T) => void
   onLayout?: (event: LayoutChangeEvent) => void
@@ -26,6 +32,26 @@ export type MaterialTabItemProps<T extends TabName> = TabItemProps<T> & {
   inactiveOpacity?: number
   pressColor?: string
   pressOpacity?: number
+  /**
+   * Opacity of the tab item when the tab is disabled
+   */
+  disabledOpacity?: number
+  /**
+   * Style to apply to the badge
+   */
+  badgeStyle?: StyleProp<ViewStyle>
+  /**
+   * Style to apply to the badge text
+   */
+  badgeTextStyle?: StyleProp<TextStyle>
+  /**
+   * Counts above this are shown as `max+`
+   */
+  maxBadgeCount?: number
+  /**
+   * Layout of the icon and the label
+   */
+  itemLayout?: MaterialTabItemLayout
   /**
    * Color applied to the label when active
    */
@@ -82,6 +108,22 @@ export type MaterialTabBarProps<N extends TabName> = TabBarProps<N> & {
    * Whether to keep the currently active tab centered in a scrollable tab bar
    */
   keepActiveTabCentered?: boolean
+  /**
+   * Style to apply to the tab badges
+   */
+  badgeStyle?: StyleProp<ViewStyle>
+  /**
+   * Style to apply to the tab badge text
+   */
+  badgeTextStyle?: StyleProp<TextStyle>
+  /**
+   * Badge counts above this are shown as `max+`
+   */
+  maxBadgeCount?: number
+  /**
+   * Layout of the icon and the label in the tab items
+   */
+  itemLayout?: MaterialTabItemLayout
 }
 
 export type ItemLayout = {
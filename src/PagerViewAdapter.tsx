@@ -0,0 +1,34 @@
+import React from 'react'
+import PagerView, { PagerViewProps } from 'react-native-pager-view'
+import Animated from 'react-native-reanimated'
+
+import { usePageScrollHandler } from './hooks'
+import { ContainerRef, PagerProps } from './types'
+
+const AnimatedPagerView = Animated.createAnimatedComponent(PagerView)
+
+/**
+ * Default pager, backed by `react-native-pager-view`.
+ */
+export const PagerViewAdapter = React.forwardRef<
+  ContainerRef,
+  PagerProps & Omit<PagerViewProps, 'onPageScroll'>
+>(({ onPageScroll, ...rest }, ref) => {
+  const pageScrollHandler = usePageScrollHandler(
+    {
+      onPageScroll: (e) => {
+        'worklet'
+        onPageScroll(e.position, e.offset)
+      },
+    },
+    [onPageScroll]
+  )
+
+  return (
+    <AnimatedPagerView
+      ref={ref as React.Ref<PagerView>}
+      onPageScroll={pageScrollHandler}
+      {...rest}
+    />
+  )
+})
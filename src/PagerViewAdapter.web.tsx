@@ -0,0 +1,91 @@
+import React from 'react'
+import { LayoutChangeEvent, StyleSheet, View } from 'react-native'
+import Animated, {
+  useAnimatedRef,
+  useAnimatedScrollHandler,
+  useSharedValue,
+} from 'react-native-reanimated'
+
+import { PagerHandle, PagerProps } from './types'
+
+/**
+ * Web pager, `react-native-pager-view` has no web implementation. Uses a
+ * horizontal scroll view, which react-native-web snaps to the pages with CSS
+ * scroll snapping.
+ */
+export const PagerViewAdapter = React.forwardRef<PagerHandle, PagerProps>(
+  ({ initialPage, scrollEnabled, onPageScroll, style, children }, ref) => {
+    const scrollRef = useAnimatedRef<Animated.ScrollView>()
+    const [pageWidth, setPageWidth] = React.useState(0)
+    const pageWidthValue = useSharedValue(0)
+    const currentPage = useSharedValue(initialPage)
+
+    const scrollToPage = React.useCallback(
+      (index: number, width: number, animated: boolean) => {
+        scrollRef.current?.scrollTo({ x: index * width, y: 0, animated })
+      },
+      [scrollRef]
+    )
+
+    React.useImperativeHandle(
+      ref,
+      () => ({
+        setPage: (index) => scrollToPage(index, pageWidth, true),
+        setPageWithoutAnimation: (index) =>
+          scrollToPage(index, pageWidth, false),
+      }),
+      [scrollToPage, pageWidth]
+    )
+
+    const scrollHandler = useAnimatedScrollHandler(
+      {
+        onScroll: (event) => {
+          if (pageWidthValue.value <= 0) return
+          const page = event.contentOffset.x / pageWidthValue.value
+          const position = Math.floor(page)
+          currentPage.value = Math.round(page)
+          onPageScroll(position, page - position)
+        },
+      },
+      [onPageScroll]
+    )
+
+    const onLayout = React.useCallback(
+      (event: LayoutChangeEvent) => {
+        const { width } = event.nativeEvent.layout
+        if (width === pageWidth) return
+        pageWidthValue.value = width
+        setPageWidth(width)
+        // keep the same page visible when the width changes
+        requestAnimationFrame(() =>
+          scrollToPage(currentPage.value, width, false)
+        )
+      },
+      [pageWidth, pageWidthValue, currentPage, scrollToPage]
+    )
+
+    return (
+      <Animated.ScrollView
+        ref={scrollRef}
+        horizontal
+        pagingEnabled
+        scrollEnabled={scrollEnabled ?? true}
+        showsHorizontalScrollIndicator={false}
+        onScroll={scrollHandler}
+        scrollEventThrottle={16}
+        onLayout={onLayout}
+        style={style}
+      >
+        {React.Children.map(children, (child) => (
+          <View style={[styles.page, { width: pageWidth }]}>{child}</View>
+        ))}
+      </Animated.ScrollView>
+    )
+  }
+)
+
+const styles = StyleSheet.create({
+  page: {
+    height: '100%',
+  },
+})
@@ -7,12 +7,12 @@ import { TabName, TabProps } from './types'
  *
  * ```tsx
  * <Tabs.Container ...>
- *  <Tabs.Tab name="A" label="First Tab">
- *   <ScreenA />
- *  </Tabs.Tab>
- *  <Tabs.Tab name="B">
- *   <ScreenA />
- *  </Tabs.Tab>
+ *   <Tabs.Tab name="A" label="First Tab">
+ *     <ScreenA />
+ *   </Tabs.Tab>
+ *   <Tabs.Tab name="B">
+ *     <ScreenA />
+ *   </Tabs.Tab>
  * </Tabs.Container>
  * ```
  */
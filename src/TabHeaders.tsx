@@ -0,0 +1,111 @@
+import React from 'react'
+import { StyleSheet } from 'react-native'
+import Animated, {
+  Extrapolation,
+  interpolate,
+  SharedValue,
+  useAnimatedStyle,
+} from 'react-native-reanimated'
+
+import { useConvertAnimatedToValue, useLayoutHeight } from './hooks'
+import { TabBarProps, TabName } from './types'
+
+type TabHeaderProps = {
+  name: TabName
+  index: number
+  indexDecimal: SharedValue<number>
+  focused: boolean
+  onHeightChange: (name: TabName, height: number) => void
+  children: React.ReactNode
+}
+
+const TabHeader: React.FC<TabHeaderProps> = ({
+  name,
+  index,
+  indexDecimal,
+  focused,
+  onHeightChange,
+  children,
+}) => {
+  const [height, getHeight] = useLayoutHeight()
+
+  React.useEffect(() => {
+    onHeightChange(name, height)
+  }, [name, height, onHeightChange])
+
+  const stylez = useAnimatedStyle(() => {
+    return {
+      opacity: interpolate(
+        indexDecimal.value,
+        [index - 1, index, index + 1],
+        [0, 1, 0],
+        Extrapolation.CLAMP
+      ),
+    }
+  }, [index])
+
+  return (
+    <Animated.View
+      style={[styles.tabHeader, stylez]}
+      onLayout={getHeight}
+      pointerEvents={focused ? 'box-none' : 'none'}
+    >
+      {children}
+    </Animated.View>
+  )
+}
+
+/**
+ * Renders the `renderHeader` of each tab below the container header,
+ * cross-fading them while swiping.
+ */
+export const TabHeaders: React.FC<{
+  headerProps: TabBarProps<TabName>
+  /**
+   * Height of the section, interpolated between the headers of the tabs.
+   */
+  height: SharedValue<number>
+  onHeightChange: (name: TabName, height: number) => void
+}> = ({ headerProps, height, onHeightChange }) => {
+  const { tabNames, tabProps, indexDecimal, focusedTab } = headerProps
+  const focusedTabValue = useConvertAnimatedToValue(focusedTab)
+
+  const stylez = useAnimatedStyle(() => {
+    return {
+      height: height.value,
+    }
+  })
+
+  return (
+    <Animated.View style={[styles.container, stylez]} pointerEvents="box-none">
+      {tabNames.map((name, i) => {
+        const renderHeader = tabProps.get(name)?.renderHeader
+        if (!renderHeader) return null
+        return (
+          <TabHeader
+            key={name}
+            name={name}
+            index={i}
+            indexDecimal={indexDecimal}
+            focused={focusedTabValue === name}
+            onHeightChange={onHeightChange}
+          >
+            {renderHeader(headerProps)}
+          </TabHeader>
+        )
+      })}
+    </Animated.View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    zIndex: 2,
+  },
+  tabHeader: {
+    position: 'absolute',
+    top: 0,
+    width: '100%',
+  },
+})
@@ -0,0 +1,363 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals'
+import React from 'react'
+import { View } from 'react-native'
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer'
+
+import { Container } from '../Container'
+import { DebugOverlay } from '../DebugOverlay'
+import { Tab } from '../Tab'
+import { useTabsContext } from '../hooks'
+import {
+  CollapsibleProps,
+  ContextType,
+  PagerHandle,
+  PagerProps,
+  TabBarProps,
+  TabName,
+  TabProps,
+} from '../types'
+
+// react-native's renderer is older than react here, so it can't be loaded to
+// find the views animated components attach their events to
+jest.mock('react-native/Libraries/Renderer/shims/ReactNative', () => ({
+  default: { findNodeHandle: () => null },
+}))
+
+let pager: { setPage: jest.Mock; onPageScroll: PagerProps['onPageScroll'] }
+let tabBar: TabBarProps
+
+const TestPager = React.forwardRef<PagerHandle, PagerProps>(
+  ({ onPageScroll, children }, ref) => {
+    pager.onPageScroll = onPageScroll
+    React.useImperativeHandle(ref, () => ({
+      setPage: pager.setPage,
+      setPageWithoutAnimation: pager.setPage,
+    }))
+    return <View>{children}</View>
+  }
+)
+
+const renderContainer = (props: Partial<CollapsibleProps>) => {
+  const element = (extraProps: Partial<CollapsibleProps>) => (
+    <Container
+      PagerComponent={TestPager}
+      children={[
+        <Tab key="a" name="a">
+          <View />
+        </Tab>,
+        <Tab key="b" name="b">
+          <View />
+        </Tab>,
+      ]}
+      headerHeight={100}
+      renderTabBar={(props) => {
+        tabBar = props
+        return null
+      }}
+      {...props}
+      {...extraProps}
+    />
+  )
+
+  let renderer!: ReactTestRenderer
+  act(() => {
+    renderer = TestRenderer.create(element({}))
+  })
+  flush()
+  return {
+    update: (extraProps: Partial<CollapsibleProps>) => {
+      act(() => {
+        renderer.update(element(extraProps))
+      })
+      flush()
+    },
+  }
+}
+
+// lets the reactions and the callbacks they schedule run
+const flush = (ms = 50) => {
+  act(() => {
+    jest.advanceTimersByTime(ms)
+  })
+}
+
+const swipe = (from: number, to: number) => {
+  // starts with a small move, like a real pager
+  act(() => {
+    pager.onPageScroll(Math.min(from, to), from < to ? 0.1 : 0.9)
+  })
+  flush()
+  act(() => {
+    pager.onPageScroll(to, 0)
+  })
+  flush()
+}
+
+describe('Container controlled mode', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    pager = { setPage: jest.fn(), onPageScroll: () => {} }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('requests the swiped-to tab, and stays there when the parent accepts late', () => {
+    const onTabChange = jest.fn()
+    const container = renderContainer({ focusedTabName: 'a', onTabChange })
+
+    swipe(0, 1)
+    expect(onTabChange).toHaveBeenCalledTimes(1)
+    expect(onTabChange).toHaveBeenCalledWith(
+      expect.objectContaining({ tabName: 'b' })
+    )
+
+    flush(300)
+    container.update({ focusedTabName: 'b', onTabChange })
+    flush(1000)
+
+    expect(pager.setPage).not.toHaveBeenCalled()
+  })
+
+  it('goes back when the parent renders again with the same tab', () => {
+    const container = renderContainer({ focusedTabName: 'a' })
+
+    swipe(0, 1)
+    container.update({ focusedTabName: 'a' })
+
+    expect(pager.setPage).toHaveBeenCalledWith(0)
+  })
+
+  it("goes back when the parent doesn't answer", () => {
+    renderContainer({ focusedTabName: 'a' })
+
+    swipe(0, 1)
+    expect(pager.setPage).not.toHaveBeenCalled()
+
+    flush(500)
+    expect(pager.setPage).toHaveBeenCalledWith(0)
+  })
+
+  it('reports an accepted press as a press, timed from the press', () => {
+    const onPerformanceReport = jest.fn()
+    const container = renderContainer({
+      focusedTabName: 'a',
+      onPerformanceReport,
+    })
+
+    act(() => {
+      tabBar.onTabPress('b')
+    })
+    flush(200)
+    container.update({ focusedTabName: 'b', onPerformanceReport })
+    expect(pager.setPage).toHaveBeenCalledWith(1)
+    swipe(0, 1)
+
+    expect(onPerformanceReport).toHaveBeenCalledTimes(1)
+    const report = onPerformanceReport.mock.calls[0][0]
+    expect(report).toMatchObject({
+      type: 'tab-switch',
+      tabName: 'b',
+      trigger: 'press',
+    })
+    // 200ms waiting for the parent, then the render and the swipe
+    expect((report as { duration: number }).duration).toBeGreaterThan(250)
+  })
+
+  it("doesn't time the next swipe from a rejected press", () => {
+    const onPerformanceReport = jest.fn()
+    const container = renderContainer({
+      focusedTabName: 'a',
+      onPerformanceReport,
+    })
+
+    act(() => {
+      tabBar.onTabPress('b')
+    })
+    container.update({ focusedTabName: 'a', onPerformanceReport })
+    flush(1000)
+    expect(pager.setPage).not.toHaveBeenCalled()
+
+    swipe(0, 1)
+    container.update({ focusedTabName: 'b', onPerformanceReport })
+
+    expect(onPerformanceReport).toHaveBeenCalledTimes(1)
+    const report = onPerformanceReport.mock.calls[0][0]
+    expect(report).toMatchObject({ type: 'tab-switch', trigger: 'swipe' })
+    expect((report as { duration: number }).duration).toBeLessThan(1000)
+  })
+})
+
+describe('Container hidden tabs', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    pager = { setPage: jest.fn(), onPageScroll: () => {} }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  const tabs = (
+    hidden: boolean,
+    content: React.ReactElement,
+    props: Partial<TabProps<TabName>> = {}
+  ) => [
+    <Tab key="a" name="a">
+      <View />
+    </Tab>,
+    <Tab key="b" name="b" hidden={hidden} {...props}>
+      {content}
+    </Tab>,
+  ]
+
+  it('keeps the content of a tab mounted while hiding and showing it', () => {
+    const onMount = jest.fn()
+    const onUnmount = jest.fn()
+    const Content = () => {
+      React.useEffect(() => {
+        onMount()
+        return () => {
+          onUnmount()
+        }
+      }, [])
+      return <View />
+    }
+    const container = renderContainer({
+      lazy: false,
+      children: tabs(false, <Content />),
+    })
+
+    container.update({ lazy: false, children: tabs(true, <Content />) })
+    container.update({ lazy: false, children: tabs(false, <Content />) })
+
+    expect(onMount).toHaveBeenCalledTimes(1)
+    expect(onUnmount).not.toHaveBeenCalled()
+  })
+
+  it('gives a hidden tab its own options', () => {
+    let context: ContextType | undefined
+    const Content = () => {
+      context = useTabsContext()
+      return <View />
+    }
+    renderContainer({
+      children: tabs(true, <Content />, { revealHeaderOnScroll: true }),
+    })
+
+    expect(context?.revealHeaderOnScroll).toBe(true)
+  })
+
+  it('goes back when the pager lands on a hidden tab', () => {
+    const onTabChange = jest.fn()
+    renderContainer({ onTabChange, children: tabs(true, <View />) })
+
+    swipe(0, 1)
+
+    expect(pager.setPage).toHaveBeenCalledWith(0)
+    expect(onTabChange).not.toHaveBeenCalled()
+  })
+})
+
+describe('Container debug overlays', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    pager = { setPage: jest.fn(), onPageScroll: () => {} }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('logs events until the last overlay is gone', () => {
+    let context: ContextType | undefined
+    const Content = () => {
+      context = useTabsContext()
+      return <View />
+    }
+    const children = [
+      <Tab key="a" name="a">
+        <Content />
+      </Tab>,
+    ]
+    const container = renderContainer({
+      debug: true,
+      renderHeader: () => <DebugOverlay />,
+      children,
+    })
+    expect(context?.debugEvents.value).toEqual([])
+
+    container.update({ debug: true, renderHeader: () => null, children })
+    expect(context?.debugEvents.value).toEqual([])
+
+    container.update({ debug: false, renderHeader: () => null, children })
+    expect(context?.debugEvents.value).toBeNull()
+  })
+})
+
+describe('Container adaptive sync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    pager = { setPage: jest.fn(), onPageScroll: () => {} }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  const renderTabs = (syncMode: CollapsibleProps['syncMode']) => {
+    let context: ContextType | undefined
+    const Content = () => {
+      context = useTabsContext()
+      return <View />
+    }
+    renderContainer({
+      syncMode,
+      lazy: false,
+      children: ['a', 'b', 'c', 'd'].map((name) => (
+        <Tab key={name} name={name}>
+          <Content />
+        </Tab>
+      )),
+    })
+    return () => context!.syncBatch.value
+  }
+
+  const startSwipe = (position: number) => {
+    act(() => {
+      pager.onPageScroll(position, 0.1)
+    })
+  }
+
+  it('syncs every unfocused tab at once', () => {
+    const getSyncBatch = renderTabs('all')
+
+    startSwipe(0)
+    expect(getSyncBatch()).toEqual(['b', 'c', 'd'])
+  })
+
+  it('syncs the neighbours one at a time after slow switches', () => {
+    const getSyncBatch = renderTabs('adaptive')
+    // each swipe takes 50ms for one pager frame
+    swipe(0, 1)
+    swipe(1, 2)
+    swipe(2, 1)
+
+    startSwipe(1)
+    expect(getSyncBatch()).toEqual(['c'])
+
+    flush(60)
+    expect(getSyncBatch()).toEqual(['a'])
+
+    flush(200)
+    expect(getSyncBatch()).toEqual(['a'])
+  })
+})
@@ -0,0 +1,175 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals'
+import React from 'react'
+import { InteractionManager, Text } from 'react-native'
+import { makeMutable } from 'react-native-reanimated'
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer'
+
+import { Context, TabNameContext } from '../Context'
+import { Lazy } from '../Lazy'
+import { ContextType } from '../types'
+
+jest.mock('../ScrollView', () => {
+  const { View } = require('react-native')
+  return { ScrollView: View }
+})
+
+const TAB_NAMES = ['a', 'b', 'c', 'd']
+
+const createContext = (focusedIndex: number) =>
+  ({
+    focusedTab: makeMutable(TAB_NAMES[focusedIndex]),
+    index: makeMutable(focusedIndex),
+    tabNames: makeMutable(TAB_NAMES),
+    refMap: {},
+    tabProps: new Map(),
+    contentInset: 0,
+    debugEvents: makeMutable(null),
+  }) as unknown as ContextType
+
+let mounts = 0
+
+const Content = () => {
+  React.useEffect(() => {
+    mounts += 1
+  }, [])
+  return <Text>content</Text>
+}
+
+const renderLazy = (
+  context: ContextType,
+  props: Partial<React.ComponentProps<typeof Lazy>> = {}
+) => {
+  const element = (extraProps: typeof props) => (
+    <Context.Provider value={context}>
+      <TabNameContext.Provider value="c">
+        <Lazy cancelLazyFadeIn preloadDistance={1} {...props} {...extraProps}>
+          <Content />
+        </Lazy>
+      </TabNameContext.Provider>
+    </Context.Provider>
+  )
+
+  let renderer!: ReactTestRenderer
+  act(() => {
+    renderer = TestRenderer.create(element({}))
+  })
+  return {
+    isMounted: () => renderer.root.findAllByType(Content).length > 0,
+    update: (extraProps: typeof props) => {
+      act(() => {
+        renderer.update(element(extraProps))
+      })
+    },
+  }
+}
+
+// lets the reactions run, then the preload scheduled after interactions
+const flush = () => {
+  act(() => {
+    jest.advanceTimersByTime(100)
+  })
+}
+
+describe('Lazy preloadDistance', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    mounts = 0
+    jest
+      .spyOn(InteractionManager, 'runAfterInteractions')
+      .mockImplementation((task) => {
+        if (typeof task === 'function') setTimeout(task, 0)
+        return { cancel: () => {} } as ReturnType<
+          typeof InteractionManager.runAfterInteractions
+        >
+      })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('stays unmounted while the focused tab is out of range', () => {
+    const context = createContext(0)
+    const lazy = renderLazy(context)
+    flush()
+    expect(lazy.isMounted()).toBe(false)
+  })
+
+  it('mounts once the focused tab comes in range', () => {
+    const context = createContext(0)
+    const lazy = renderLazy(context)
+    flush()
+
+    act(() => {
+      context.index.value = 1
+    })
+    flush()
+
+    expect(lazy.isMounted()).toBe(true)
+    expect(mounts).toBe(1)
+  })
+
+  it('does not remount when the focused tab leaves and enters the range again', () => {
+    const context = createContext(1)
+    const lazy = renderLazy(context)
+    flush()
+    expect(mounts).toBe(1)
+
+    act(() => {
+      context.index.value = 0
+    })
+    flush()
+    act(() => {
+      context.index.value = 3
+    })
+    flush()
+
+    expect(lazy.isMounted()).toBe(true)
+    expect(mounts).toBe(1)
+  })
+
+  it('does not preload an unmounted tab', () => {
+    const context = createContext(0)
+    const lazy = renderLazy(context, { unmounted: true })
+    flush()
+
+    act(() => {
+      context.index.value = 1
+    })
+    flush()
+
+    expect(lazy.isMounted()).toBe(false)
+  })
+
+  it('unmounts a preloaded tab, and preloads it again on the next range entry', () => {
+    const context = createContext(1)
+    const lazy = renderLazy(context)
+    flush()
+    expect(mounts).toBe(1)
+
+    lazy.update({ unmounted: true })
+    expect(lazy.isMounted()).toBe(false)
+
+    lazy.update({ unmounted: false })
+    act(() => {
+      context.index.value = 0
+    })
+    flush()
+    expect(lazy.isMounted()).toBe(false)
+
+    act(() => {
+      context.index.value = 1
+    })
+    flush()
+    expect(lazy.isMounted()).toBe(true)
+    expect(mounts).toBe(2)
+  })
+})
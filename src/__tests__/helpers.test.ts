@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals'
+
+import { getNextTabSwitchState, getSyncBatches } from '../helpers'
+import { TabSwitchEvent, TabSwitchState } from '../types'
+
+describe('getNextTabSwitchState', () => {
+  const transitions: [TabSwitchState, TabSwitchEvent, TabSwitchState][] = [
+    ['idle', 'drag-start', 'dragging'],
+    ['idle', 'drag-end', 'idle'],
+    ['idle', 'page-move', 'settling'],
+    ['idle', 'page-settle', 'idle'],
+    ['idle', 'sync-end', 'idle'],
+
+    ['dragging', 'drag-start', 'dragging'],
+    ['dragging', 'drag-end', 'idle'],
+    ['dragging', 'page-move', 'dragging'],
+    ['dragging', 'page-settle', 'dragging'],
+    ['dragging', 'sync-end', 'dragging'],
+
+    ['settling', 'drag-start', 'dragging'],
+    ['settling', 'drag-end', 'settling'],
+    ['settling', 'page-move', 'settling'],
+    ['settling', 'page-settle', 'syncing'],
+    ['settling', 'sync-end', 'settling'],
+
+    ['syncing', 'drag-start', 'dragging'],
+    ['syncing', 'drag-end', 'syncing'],
+    ['syncing', 'page-move', 'settling'],
+    ['syncing', 'page-settle', 'syncing'],
+    ['syncing', 'sync-end', 'idle'],
+  ]
+
+  it.each(transitions)('goes from %s on %s to %s', (state, event, next) => {
+    expect(getNextTabSwitchState(state, event)).toBe(next)
+  })
+
+  it('ignores the pager while a list is scrolling', () => {
+    let state: TabSwitchState = 'dragging'
+    state = getNextTabSwitchState(state, 'page-move')
+    state = getNextTabSwitchState(state, 'page-settle')
+    expect(state).toBe('dragging')
+  })
+
+  it('runs a whole swipe', () => {
+    const events: TabSwitchEvent[] = ['page-move', 'page-settle', 'sync-end']
+    const states = events.reduce<TabSwitchState[]>(
+      (acc, event) => [
+        ...acc,
+        getNextTabSwitchState(acc[acc.length - 1], event),
+      ],
+      ['idle']
+    )
+    expect(states).toEqual(['idle', 'settling', 'syncing', 'idle'])
+  })
+
+  it('settles again when the pager moves while syncing', () => {
+    expect(getNextTabSwitchState('syncing', 'page-move')).toBe('settling')
+  })
+})
+
+describe('getSyncBatches', () => {
+  const tabNames = ['a', 'b', 'c', 'd', 'e']
+
+  it('syncs every unfocused tab at once, the target first', () => {
+    expect(getSyncBatches(tabNames, 1, 3, 'normal')).toEqual([
+      ['d', 'a', 'c', 'e'],
+    ])
+  })
+
+  it('syncs every unfocused tab two at a time when moderate', () => {
+    expect(getSyncBatches(tabNames, 1, 2, 'moderate')).toEqual([
+      ['c', 'a'],
+      ['d', 'e'],
+    ])
+  })
+
+  it('syncs the neighbours and the target one at a time when aggressive', () => {
+    expect(getSyncBatches(tabNames, 1, 4, 'aggressive')).toEqual([
+      ['e'],
+      ['a'],
+      ['c'],
+    ])
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals'
+import React from 'react'
+import { StyleSheet, View, ViewStyle } from 'react-native'
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer'
+
+import { Context } from '../Context'
+import { Tab } from '../Tab'
+import { useCollapsibleStyle, useTabProps } from '../hooks'
+import {
+  CollapsibleStyle,
+  ContextType,
+  TabBarPosition,
+  TabProps,
+  TabsWithProps,
+} from '../types'
+
+const renderCollapsibleStyle = (tabBarPosition: TabBarPosition) => {
+  const context = {
+    headerHeight: 200,
+    tabBarHeight: 48,
+    tabBarPosition,
+    containerHeight: 800,
+    width: 400,
+    allowHeaderOverscroll: false,
+    minHeaderHeight: 0,
+  } as unknown as ContextType
+
+  let style!: CollapsibleStyle
+  const Probe = () => {
+    style = useCollapsibleStyle()
+    return null
+  }
+  act(() => {
+    TestRenderer.create(
+      <Context.Provider value={context}>
+        <Probe />
+      </Context.Provider>
+    )
+  })
+  return style
+}
+
+// the lists merge the user's style first and the collapsible style last
+const mergeContentContainerStyle = (
+  contentContainerStyle: ViewStyle,
+  style: CollapsibleStyle
+) =>
+  StyleSheet.flatten<ViewStyle>([
+    contentContainerStyle,
+    style.contentContainerStyle,
+  ])
+
+describe('useCollapsibleStyle', () => {
+  it("keeps the padding of the list's contentContainerStyle with a top tab bar", () => {
+    const style = renderCollapsibleStyle('top')
+    const merged = mergeContentContainerStyle({ padding: 16 }, style)
+    expect(merged.padding).toBe(16)
+    expect(merged).not.toHaveProperty('paddingBottom')
+  })
+
+  it('pads the end of the content with a bottom tab bar', () => {
+    const style = renderCollapsibleStyle('bottom')
+    const merged = mergeContentContainerStyle({ paddingVertical: 16 }, style)
+    expect(merged.paddingBottom).toBe(48)
+  })
+})
+
+describe('useTabProps', () => {
+  const renderTabProps = () => {
+    let options!: TabsWithProps
+    const Probe = ({ tab }: { tab: Partial<TabProps<string>> }) => {
+      options = useTabProps(
+        <Tab name="a" {...tab}>
+          <View />
+        </Tab>,
+        Tab
+      )[0]
+      return null
+    }
+
+    let renderer!: ReactTestRenderer
+    const render = (tab: Partial<TabProps<string>>) => {
+      act(() => {
+        if (renderer) {
+          renderer.update(<Probe tab={tab} />)
+        } else {
+          renderer = TestRenderer.create(<Probe tab={tab} />)
+        }
+      })
+      return options
+    }
+    return render
+  }
+
+  it('keeps the options while they are equal', () => {
+    const render = renderTabProps()
+    const icon = <View />
+    const renderHeader = () => null
+
+    const options = render({ label: 'A', icon, renderHeader })
+    expect(render({ label: 'A', icon, renderHeader })).toBe(options)
+    expect(render({ label: 'B', icon, renderHeader })).not.toBe(options)
+  })
+
+  it('compares the icon and the header by reference', () => {
+    const render = renderTabProps()
+    const renderHeader = () => null
+
+    const options = render({ icon: <View />, renderHeader })
+    expect(render({ icon: <View />, renderHeader })).not.toBe(options)
+
+    const icon = <View />
+    const next = render({ icon, renderHeader })
+    expect(render({ icon, renderHeader: () => null })).not.toBe(next)
+  })
+})
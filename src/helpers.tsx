@@ -1,20 +1,303 @@
-import { FlatList, Platform, SectionList, I18nManager } from 'react-native'
-import Animated, { AnimatedRef, scrollTo } from 'react-native-reanimated'
+import {
+  FlatList,
+  Platform,
+  SectionList,
+  I18nManager,
+  StyleSheet,
+} from 'react-native'
+import Animated, {
+  AnimatedRef,
+  scrollTo,
+  SharedValue,
+} from 'react-native-reanimated'
 
-import { RefComponent } from './types'
+import {
+  AdaptiveSyncLevel,
+  DebugEvent,
+  RefComponent,
+  ScrollTarget,
+  SyncStrategy,
+  SyncStrategyContext,
+  TabName,
+  TabSwitchEvent,
+  TabSwitchState,
+} from './types'
 
 /** The time one frame takes at 60 fps (16 ms) */
 export const ONE_FRAME_MS = 16
 
+/** How long web scroll events must pause before we treat the scroll as ended */
+export const WEB_SCROLL_END_MS = ONE_FRAME_MS * 8
+
+/** How long a controlled container waits for the parent to answer a tab request */
+export const CONTROLLED_TAB_TIMEOUT_MS = 500
+
+/** How many of the last tab switches adaptive sync averages */
+export const ADAPTIVE_SYNC_SAMPLES = 10
+
+/**
+ * How adaptive sync syncs the unfocused tabs at each level: whether it only
+ * syncs the neighbours of the focused tab and the target, how many tabs it
+ * syncs in one frame, and how long it waits between those batches.
+ */
+export const ADAPTIVE_SYNC_SETTINGS: Record<
+  AdaptiveSyncLevel,
+  { neighboursOnly: boolean; batchSize: number; batchIntervalMs: number }
+> = {
+  normal: { neighboursOnly: false, batchSize: Infinity, batchIntervalMs: 0 },
+  moderate: {
+    neighboursOnly: false,
+    batchSize: 2,
+    batchIntervalMs: ONE_FRAME_MS * 2,
+  },
+  aggressive: {
+    neighboursOnly: true,
+    batchSize: 1,
+    batchIntervalMs: ONE_FRAME_MS * 3,
+  },
+}
+
+/** How many events the debug overlay keeps */
+export const DEBUG_LOG_SIZE = 20
+
+/** How often the debug overlay reads the state, in milliseconds */
+export const DEBUG_SNAPSHOT_INTERVAL_MS = 100
+
 /** check if app is in RTL mode or not */
 export const { isRTL } = I18nManager
 
 export const IS_IOS = Platform.OS === 'ios'
 
+export const IS_WEB = Platform.OS === 'web'
+
+type WebScrollable = {
+  getScrollableNode?: () => {
+    scrollTo?: (options: {
+      left: number
+      top: number
+      behavior: string
+    }) => void
+  } | null
+}
+
 export const AnimatedFlatList = Animated.createAnimatedComponent(FlatList)
 
 export const AnimatedSectionList = Animated.createAnimatedComponent(SectionList)
 
+/**
+ * Returns the snap point closest to `value`, clamping the points to the
+ * header scroll distance. With a `direction`, only the points ahead of `value`
+ * in that direction are considered, if there are any.
+ */
+export function findNearestSnapPoint(
+  value: number,
+  snapPoints: number[],
+  headerScrollDistance: number,
+  direction: number = 0
+): number {
+  'worklet'
+  const points = snapPoints.map((point) =>
+    Math.min(Math.max(point, 0), headerScrollDistance)
+  )
+  const ahead = points.filter((point) =>
+    direction > 0 ? point > value : direction < 0 ? point < value : true
+  )
+  let nearest = value
+  let nearestDistance = Number.POSITIVE_INFINITY
+  for (const point of ahead.length ? ahead : points) {
+    const distance = Math.abs(point - value)
+    if (distance < nearestDistance) {
+      nearest = point
+      nearestDistance = distance
+    }
+  }
+  return nearest
+}
+
+/**
+ * Scrolls the tab so that the header stays where the focused tab put it.
+ */
+function matchHeaderSyncStrategy({
+  tabScrollY,
+  focusedScrollY,
+  headerHeight,
+  headerScrollDistance,
+  accDiffClamp,
+  snappingTo,
+  revealHeaderOnScroll,
+  snapThreshold,
+  snapPoints,
+}: SyncStrategyContext): number | null {
+  'worklet'
+  if (Math.abs(focusedScrollY - tabScrollY) < 1) return null
+
+  const currIsOnTop =
+    tabScrollY + StyleSheet.hairlineWidth <= headerScrollDistance
+  const focusedIsOnTop =
+    focusedScrollY + StyleSheet.hairlineWidth <= headerScrollDistance
+
+  if (revealHeaderOnScroll) {
+    const hasGap = accDiffClamp > tabScrollY
+    if (hasGap || currIsOnTop) {
+      return accDiffClamp
+    }
+  } else if (snapPoints?.length || typeof snapThreshold === 'number') {
+    if (focusedIsOnTop) {
+      return snappingTo
+    } else if (currIsOnTop) {
+      return headerHeight
+    }
+  } else if (currIsOnTop || focusedIsOnTop) {
+    return Math.min(focusedScrollY, headerScrollDistance)
+  }
+  return null
+}
+
+const SYNC_STRATEGIES = {
+  'match-header': matchHeaderSyncStrategy,
+  'reset-to-top': () => {
+    'worklet'
+    return 0
+  },
+  preserve: () => {
+    'worklet'
+    return null
+  },
+}
+
+export function getSyncStrategy(
+  strategy: SyncStrategy
+): (context: SyncStrategyContext) => number | null {
+  return typeof strategy === 'function' ? strategy : SYNC_STRATEGIES[strategy]
+}
+
+/**
+ * Adds an event to the log of the debug overlay, if one is shown. The same key
+ * logged in a row is counted in a single event.
+ */
+export function logDebugEvent(
+  debugEvents: SharedValue<DebugEvent[] | null>,
+  debugKey: string,
+  y: number
+) {
+  'worklet'
+  const events = debugEvents.value
+  if (!events) return
+  const last = events[events.length - 1]
+  debugEvents.value =
+    last?.debugKey === debugKey
+      ? [...events.slice(0, -1), { debugKey, y, count: last.count + 1 }]
+      : [...events, { debugKey, y, count: 1 }].slice(-DEBUG_LOG_SIZE)
+}
+
+/**
+ * Remembers a scroll we start on web, which has no drag events to tell it
+ * apart from the user scrolling. Offsets don't include the content inset.
+ */
+export function markScrollTarget(
+  scrollTargets: SharedValue<Partial<Record<TabName, ScrollTarget>>>,
+  name: TabName,
+  from: number,
+  to: number
+) {
+  'worklet'
+  if (!IS_WEB) return
+  scrollTargets.value = { ...scrollTargets.value, [name]: { from, to } }
+}
+
+/**
+ * Whether a scroll event of a tab belongs to a scroll we started. The scroll
+ * is forgotten once it reaches its target, or once the user scrolls elsewhere.
+ */
+export function isScrollTarget(
+  scrollTargets: SharedValue<Partial<Record<TabName, ScrollTarget>>>,
+  name: TabName,
+  y: number
+) {
+  'worklet'
+  const target = scrollTargets.value[name]
+  if (!target) return false
+
+  const isOurs =
+    y >= Math.min(target.from, target.to) - 1 &&
+    y <= Math.max(target.from, target.to) + 1
+  if (!isOurs || Math.abs(y - target.to) < 1) {
+    const next = { ...scrollTargets.value }
+    delete next[name]
+    scrollTargets.value = next
+  }
+  return isOurs
+}
+
+/**
+ * Picks how adaptive sync syncs the unfocused tabs from the average frame time
+ * of the last tab switches.
+ */
+export function getAdaptiveSyncLevel(frameTimes: number[]): AdaptiveSyncLevel {
+  'worklet'
+  if (frameTimes.length < 3) return 'normal'
+  const average =
+    frameTimes.reduce((sum, frameTime) => sum + frameTime, 0) /
+    frameTimes.length
+  if (average > ONE_FRAME_MS * 2) return 'aggressive'
+  if (average > ONE_FRAME_MS * 1.25) return 'moderate'
+  return 'normal'
+}
+
+/**
+ * Splits the unfocused tabs to sync in a switch into the batches of the sync
+ * level. The target comes first, then the tabs closest to the focused one.
+ */
+export function getSyncBatches(
+  tabNames: TabName[],
+  focusedIndex: number,
+  targetIndex: number,
+  level: AdaptiveSyncLevel
+): TabName[][] {
+  'worklet'
+  const { neighboursOnly, batchSize } = ADAPTIVE_SYNC_SETTINGS[level]
+  const distance = (i: number) =>
+    i === targetIndex ? 0 : Math.abs(i - focusedIndex)
+  const indexes = tabNames
+    .map((_, i) => i)
+    .filter(
+      (i) =>
+        i !== focusedIndex &&
+        (!neighboursOnly || i === targetIndex || distance(i) <= 1)
+    )
+    .sort((a, b) => distance(a) - distance(b))
+
+  const batches: TabName[][] = []
+  for (let i = 0; i < indexes.length; i += batchSize) {
+    batches.push(indexes.slice(i, i + batchSize).map((j) => tabNames[j]))
+  }
+  return batches
+}
+
+/**
+ * Transitions of the tab switch state. A list that is scrolling keeps the
+ * state at `dragging` until it stops, so that unfocused tabs are never synced
+ * against a moving position.
+ */
+export function getNextTabSwitchState(
+  state: TabSwitchState,
+  event: TabSwitchEvent
+): TabSwitchState {
+  'worklet'
+  switch (event) {
+    case 'drag-start':
+      return 'dragging'
+    case 'drag-end':
+      return state === 'dragging' ? 'idle' : state
+    case 'page-move':
+      return state === 'idle' || state === 'syncing' ? 'settling' : state
+    case 'page-settle':
+      return state === 'settling' ? 'syncing' : state
+    case 'sync-end':
+      return state === 'syncing' ? 'idle' : state
+  }
+}
+
 export function scrollToImpl<T extends RefComponent>(
   ref: AnimatedRef<T> | undefined,
   x: number,
@@ -26,5 +309,16 @@ export function scrollToImpl<T extends RefComponent>(
   // ensure we don't scroll on NaN
   if (!Number.isFinite(x) || !Number.isFinite(y)) return
 
+  if (IS_WEB) {
+    // reanimated can't scroll on web, so we scroll the DOM node directly
+    const node = (ref.current as WebScrollable | null)?.getScrollableNode?.()
+    node?.scrollTo?.({
+      left: x,
+      top: y,
+      behavior: animated ? 'smooth' : 'auto',
+    })
+    return
+  }
+
   scrollTo(ref, x, y, animated)
 }
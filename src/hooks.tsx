@@ -7,12 +7,12 @@ import {
   useEffect,
   useRef,
   RefObject,
+  EffectCallback,
 } from 'react'
 import {
   LayoutChangeEvent,
   NativeScrollEvent,
   NativeSyntheticEvent,
-  StyleSheet,
   ViewProps,
 } from 'react-native'
 import { ContainerRef, RefComponent } from 'react-native-collapsible-tab-view'
@@ -29,23 +29,44 @@ import {
   useEvent,
   useHandler,
   AnimatedRef,
+  DerivedValue,
   Extrapolation,
   SharedValue,
+  runOnJS,
+  runOnUI,
 } from 'react-native-reanimated'
 import { useDeepCompareMemo } from 'use-deep-compare'
 
 import { Context, TabNameContext } from './Context'
-import { IS_IOS, ONE_FRAME_MS, scrollToImpl } from './helpers'
+import {
+  IS_IOS,
+  IS_WEB,
+  ONE_FRAME_MS,
+  WEB_SCROLL_END_MS,
+  findNearestSnapPoint,
+  getNextTabSwitchState,
+  getSyncStrategy,
+  isScrollTarget,
+  logDebugEvent,
+  markScrollTarget,
+  scrollToImpl,
+} from './helpers'
 import {
   CollapsibleStyle,
   ContextType,
+  PagerRef,
   TabName,
+  TabProps,
   TabReactElement,
   TabsWithProps,
+  TabSwitchState,
 } from './types'
 
-export function useContainerRef() {
-  return useAnimatedRef<ContainerRef>()
+export function useContainerRef(animated: boolean): PagerRef {
+  const animatedRef = useAnimatedRef<ContainerRef>()
+  // an animated ref can't resolve the plain handle a custom pager may expose
+  const ref = useRef<ContainerRef>(null)
+  return animated ? animatedRef : (ref as unknown as PagerRef)
 }
 
 export function useAnimatedDynamicRefs(): [
@@ -64,11 +85,12 @@ export function useAnimatedDynamicRefs(): [
 export function useTabProps<T extends TabName>(
   children: TabReactElement<T>[] | TabReactElement<T>,
   tabType: Function
-): [TabsWithProps<T>, T[]] {
-  const options = useMemo(() => {
+): [TabsWithProps<T>, T[], TabsWithProps<T>] {
+  const [options, hiddenOptions] = useMemo(() => {
     const tabOptions: TabsWithProps<T> = new Map()
+    const hiddenTabs: Omit<TabProps<T>, 'children'>[] = []
     if (children) {
-      Children.forEach(children, (element, index) => {
+      Children.forEach(children, (element) => {
         if (!element) return
 
         if (element.type !== tabType)
@@ -77,24 +99,165 @@ export function useTabProps<T extends TabName>(
           )
 
         // make sure children is excluded otherwise our props will mutate too much
-        const { name, children, ...options } = element.props
-        if (tabOptions.has(name))
+        const { name, children, hidden, ...options } = element.props
+        if (tabOptions.has(name) || hiddenTabs.some((tab) => tab.name === name))
           throw new Error(`Tab names must be unique, ${name} already exists`)
 
+        // hidden tabs stay mounted, but can't be focused
+        if (hidden) {
+          hiddenTabs.push({ name, ...options })
+          return
+        }
+
         tabOptions.set(name, {
-          index,
+          index: tabOptions.size,
           name,
           ...options,
         })
       })
     }
-    return tabOptions
+    // hidden tabs are the last pages
+    const hiddenOptions: TabsWithProps<T> = new Map(
+      hiddenTabs.map((tab, i) => [
+        tab.name,
+        { ...tab, index: tabOptions.size + i },
+      ])
+    )
+    return [tabOptions, hiddenOptions] as const
   }, [children, tabType])
-  const optionEntries = Array.from(options.entries())
   const optionKeys = Array.from(options.keys())
-  const memoizedOptions = useDeepCompareMemo(() => options, [optionEntries])
+  const memoizedOptions = useTabOptionsMemo(options)
   const memoizedTabNames = useDeepCompareMemo(() => optionKeys, [optionKeys])
-  return [memoizedOptions, memoizedTabNames]
+  const memoizedHiddenOptions = useTabOptionsMemo(hiddenOptions)
+  return [memoizedOptions, memoizedTabNames, memoizedHiddenOptions]
+}
+
+/**
+ * Keeps the same options while they are equal. `icon` and `renderHeader` are
+ * compared by reference, deep comparing elements would walk their owner.
+ */
+function useTabOptionsMemo<T extends TabName>(
+  options: TabsWithProps<T>
+): TabsWithProps<T> {
+  const values = Array.from(
+    options.entries(),
+    ([name, { icon, renderHeader, ...rest }]) => [name, rest] as const
+  )
+  const references = Array.from(options.values()).flatMap(
+    ({ icon, renderHeader }) => [icon, renderHeader]
+  )
+  const memoizedValues = useDeepCompareMemo(() => values, [values])
+  const memoizedReferences = useRef(references)
+  if (
+    references.length !== memoizedReferences.current.length ||
+    references.some((ref, i) => ref !== memoizedReferences.current[i])
+  ) {
+    memoizedReferences.current = references
+  }
+  // the options are new on every render, they change with the memoized parts
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => options, [memoizedValues, memoizedReferences.current])
+}
+
+/**
+ * Tabs to unmount to respect `maxMountedTabs` and `unmountInactiveAfterMs`.
+ * Keeps the most recently focused tabs, and never the focused one or the
+ * ones within `preloadDistance` of it.
+ */
+export function useUnmountedTabs(
+  focusedTab: SharedValue<TabName>,
+  tabNames: TabName[],
+  maxMountedTabs: number | undefined,
+  unmountInactiveAfterMs: number | undefined,
+  preloadDistance: number
+): Set<TabName> {
+  const enabled =
+    maxMountedTabs !== undefined || unmountInactiveAfterMs !== undefined
+
+  // most recently focused first
+  const [recentTabs, setRecentTabs] = useState<TabName[]>(() => [
+    focusedTab.value,
+  ])
+  const [expiredTabs, setExpiredTabs] = useState<TabName[]>([])
+  const timers = useRef(new Map<TabName, ReturnType<typeof setTimeout>>())
+
+  const clearTimer = useCallback((name: TabName) => {
+    const timer = timers.current.get(name)
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      timers.current.delete(name)
+    }
+  }, [])
+
+  const onFocus = useCallback(
+    (name: TabName, prevName: TabName) => {
+      setRecentTabs((tabs) => [name, ...tabs.filter((n) => n !== name)])
+      setExpiredTabs((tabs) =>
+        tabs.includes(name) ? tabs.filter((n) => n !== name) : tabs
+      )
+      clearTimer(name)
+
+      if (unmountInactiveAfterMs !== undefined) {
+        clearTimer(prevName)
+        timers.current.set(
+          prevName,
+          setTimeout(() => {
+            timers.current.delete(prevName)
+            setExpiredTabs((tabs) => [...tabs, prevName])
+          }, unmountInactiveAfterMs)
+        )
+      }
+    },
+    [unmountInactiveAfterMs, clearTimer]
+  )
+
+  useAnimatedReaction(
+    () => focusedTab.value,
+    (name, prevName) => {
+      if (enabled && prevName !== null && name !== prevName) {
+        runOnJS(onFocus)(name, prevName)
+      }
+    },
+    [enabled, onFocus]
+  )
+
+  useEffect(() => {
+    const pending = timers.current
+    return () => pending.forEach((timer) => clearTimeout(timer))
+  }, [])
+
+  return useMemo(() => {
+    const unmounted = new Set<TabName>()
+    if (!enabled) return unmounted
+
+    // the tabs kept under the cap: the recently focused ones, then the
+    // others in tab order
+    const mountOrder = [
+      ...recentTabs.filter((name) => tabNames.includes(name)),
+      ...tabNames.filter((name) => !recentTabs.includes(name)),
+    ]
+    const focusedIndex = tabNames.indexOf(recentTabs[0])
+    for (const name of tabNames) {
+      if (Math.abs(tabNames.indexOf(name) - focusedIndex) <= preloadDistance) {
+        continue
+      }
+      if (
+        (maxMountedTabs !== undefined &&
+          mountOrder.indexOf(name) >= maxMountedTabs) ||
+        expiredTabs.includes(name)
+      ) {
+        unmounted.add(name)
+      }
+    }
+    return unmounted
+  }, [
+    enabled,
+    tabNames,
+    recentTabs,
+    expiredTabs,
+    maxMountedTabs,
+    preloadDistance,
+  ])
 }
 
 /**
@@ -146,6 +309,7 @@ export function useCollapsibleStyle(): CollapsibleStyle {
   const {
     headerHeight,
     tabBarHeight,
+    tabBarPosition,
     containerHeight,
     width,
     allowHeaderOverscroll,
@@ -155,6 +319,9 @@ export function useCollapsibleStyle(): CollapsibleStyle {
     0,
     (containerHeight ?? 0) - minHeaderHeight
   )
+  // a bottom tab bar doesn't push the content down, it covers its end instead
+  const topTabBarHeight = tabBarPosition === 'top' ? tabBarHeight || 0 : 0
+  const bottomTabBarHeight = tabBarPosition === 'bottom' ? tabBarHeight || 0 : 0
 
   return useMemo(
     () => ({
@@ -162,24 +329,31 @@ export function useCollapsibleStyle(): CollapsibleStyle {
       contentContainerStyle: {
         minHeight:
           IS_IOS && !allowHeaderOverscroll
-            ? containerHeightWithMinHeader - (tabBarHeight || 0)
+            ? containerHeightWithMinHeader - topTabBarHeight
             : containerHeightWithMinHeader + (headerHeight || 0),
         paddingTop:
           IS_IOS && !allowHeaderOverscroll
             ? 0
-            : (headerHeight || 0) + (tabBarHeight || 0),
+            : (headerHeight || 0) + topTabBarHeight,
+        // only set with a bottom tab bar, so it doesn't override the padding
+        // of the list's own contentContainerStyle
+        ...(tabBarPosition === 'bottom' && {
+          paddingBottom: bottomTabBarHeight,
+        }),
       },
       progressViewOffset:
         // on iOS we need the refresh control to be at the top if overscrolling
         IS_IOS && allowHeaderOverscroll
           ? 0
           : // on android we need it below the header or it doesn't show because of z-index
-            (headerHeight || 0) + (tabBarHeight || 0),
+            (headerHeight || 0) + topTabBarHeight,
     }),
     [
       allowHeaderOverscroll,
       headerHeight,
-      tabBarHeight,
+      topTabBarHeight,
+      bottomTabBarHeight,
+      tabBarPosition,
       width,
       containerHeightWithMinHeader,
     ]
@@ -229,7 +403,7 @@ export function useChainCallback(fns: (Function | undefined)[]) {
 }
 
 export function useScroller<T extends RefComponent>() {
-  const { contentInset } = useTabsContext()
+  const { contentInset, debugEvents } = useTabsContext()
 
   const scroller = useCallback(
     (
@@ -245,9 +419,10 @@ export function useScroller<T extends RefComponent>() {
       // console.log(
       //   `${_debugKey}, y: ${y}, y adjusted: ${y - contentInset}`
       // )
+      logDebugEvent(debugEvents, _debugKey, y)
       scrollToImpl(ref, x, y - contentInset, animated)
     },
-    [contentInset]
+    [contentInset, debugEvents]
   )
 
   return scroller
@@ -258,6 +433,8 @@ export const useScrollHandlerY = (name: TabName) => {
     accDiffClamp,
     focusedTab,
     snapThreshold,
+    snapPoints,
+    snapVelocityThreshold,
     revealHeaderOnScroll,
     refMap,
     tabNames,
@@ -274,7 +451,12 @@ export const useScrollHandlerY = (name: TabName) => {
     contentHeights,
     indexDecimal,
     allowHeaderOverscroll,
-    isScrolling,
+    tabSwitchState,
+    tabCollapseOptions,
+    syncStrategy,
+    syncBatch,
+    debugEvents,
+    scrollTargets,
   } = useTabsContext()
 
   const enabled = useSharedValue(false)
@@ -293,73 +475,169 @@ export const useScrollHandlerY = (name: TabName) => {
    * Helper value to track if user is dragging on iOS, because iOS calls
    * onMomentumEnd only after a vigorous swipe. If the user has finished the
    * drag, but the onMomentumEnd has never triggered, we need to manually
-   * call it to sync the scenes.
+   * call it to sync the scenes. On web it detects the end of a scroll.
    */
   const afterDrag = useSharedValue(0)
 
   const scrollAnimation = useSharedValue<number | undefined>(undefined)
 
+  /**
+   * Scroll velocity in points per millisecond, measured from the scroll events
+   * so that it has the same sign on every platform. `releaseVelocity` keeps
+   * the value at the end of the drag to decide where to snap.
+   */
+  const scrollVelocity = useSharedValue(0)
+  const lastScrollTime = useSharedValue(0)
+  const releaseVelocity = useSharedValue(0)
+
   useAnimatedReaction(
     () => scrollAnimation.value,
     (val) => {
       if (val !== undefined) {
+        markScrollTarget(scrollTargets, name, val, val)
         scrollTo(refMap[name], 0, val, false, '[useAnimatedReaction scroll]')
       }
     }
   )
 
+  /**
+   * Whether this list started the `dragging` tab switch state, so that it
+   * ends it even if its momentum end never comes.
+   */
+  const isDragging = useSharedValue(false)
+
+  const startDrag = () => {
+    'worklet'
+    isDragging.value = true
+    tabSwitchState.value = getNextTabSwitchState(
+      tabSwitchState.value,
+      'drag-start'
+    )
+  }
+
+  const endDrag = () => {
+    'worklet'
+    if (!isDragging.value) return
+    isDragging.value = false
+    tabSwitchState.value = getNextTabSwitchState(
+      tabSwitchState.value,
+      'drag-end'
+    )
+    if (!Number.isInteger(indexDecimal.value)) {
+      // the pager moved while this list was scrolling
+      tabSwitchState.value = getNextTabSwitchState(
+        tabSwitchState.value,
+        'page-move'
+      )
+    }
+  }
+
+  useEffect(() => {
+    return () => {
+      // the list unmounted in the middle of a scroll
+      runOnUI(endDrag)()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
   const onMomentumEnd = () => {
     'worklet'
+    endDrag()
     if (!enabled.value) return
 
-    // 延迟标记滚动结束，确保滚动完全停止
-    setTimeout(() => {
-      isScrolling.value = false
-    }, 50)
+    // 1 when flung towards collapsing the header, -1 towards expanding it
+    const flingDirection =
+      typeof snapVelocityThreshold === 'number' &&
+      Math.abs(releaseVelocity.value) >= snapVelocityThreshold
+        ? Math.sign(releaseVelocity.value)
+        : 0
+    releaseVelocity.value = 0
 
-    if (typeof snapThreshold === 'number') {
+    if (snapPoints?.length) {
       if (revealHeaderOnScroll) {
         if (accDiffClamp.value > 0) {
-          if (
-            scrollYCurrent.value >
-            headerScrollDistance.value * snapThreshold
-          ) {
-            if (
-              accDiffClamp.value <=
-              headerScrollDistance.value * snapThreshold
-            ) {
-              // snap down
-              accDiffClamp.value = withTiming(0)
-            } else if (accDiffClamp.value < headerScrollDistance.value) {
-              // snap up
-              accDiffClamp.value = withTiming(headerScrollDistance.value)
-
-              if (scrollYCurrent.value < headerScrollDistance.value) {
-                scrollAnimation.value = scrollYCurrent.value
-                scrollAnimation.value = withTiming(headerScrollDistance.value)
-                //console.log('[${name}] sticky snap up')
-              }
-            }
-          } else {
+          const target = findNearestSnapPoint(
+            accDiffClamp.value,
+            snapPoints,
+            headerScrollDistance.value,
+            flingDirection
+          )
+          snappingTo.value = target
+          accDiffClamp.value = withTiming(target)
+          logDebugEvent(debugEvents, `[${name}] snap to point`, target)
+
+          if (scrollYCurrent.value < target) {
+            // the content must follow, otherwise there is a gap below the header
+            scrollAnimation.value = scrollYCurrent.value
+            scrollAnimation.value = withTiming(target)
+          }
+        }
+      } else if (scrollYCurrent.value <= headerScrollDistance.value) {
+        const target = findNearestSnapPoint(
+          scrollYCurrent.value,
+          snapPoints,
+          headerScrollDistance.value,
+          flingDirection
+        )
+        snappingTo.value = target
+        scrollAnimation.value = scrollYCurrent.value
+        scrollAnimation.value = withTiming(target)
+        logDebugEvent(debugEvents, `[${name}] snap to point`, target)
+      }
+    } else if (typeof snapThreshold === 'number') {
+      if (revealHeaderOnScroll) {
+        if (accDiffClamp.value > 0) {
+          const snapUp =
+            flingDirection !== 0
+              ? flingDirection > 0
+              : scrollYCurrent.value >
+                  headerScrollDistance.value * snapThreshold &&
+                accDiffClamp.value > headerScrollDistance.value * snapThreshold
+          if (!snapUp) {
+            // snap down
             accDiffClamp.value = withTiming(0)
+            logDebugEvent(debugEvents, `[${name}] snap down`, 0)
+          } else if (accDiffClamp.value < headerScrollDistance.value) {
+            // snap up
+            accDiffClamp.value = withTiming(headerScrollDistance.value)
+            logDebugEvent(
+              debugEvents,
+              `[${name}] snap up`,
+              headerScrollDistance.value
+            )
+
+            if (scrollYCurrent.value < headerScrollDistance.value) {
+              scrollAnimation.value = scrollYCurrent.value
+              scrollAnimation.value = withTiming(headerScrollDistance.value)
+              logDebugEvent(
+                debugEvents,
+                `[${name}] sticky snap up`,
+                headerScrollDistance.value
+              )
+            }
           }
         }
-      } else {
+      } else if (scrollYCurrent.value <= headerScrollDistance.value) {
         if (
-          scrollYCurrent.value <=
-          headerScrollDistance.value * snapThreshold
+          flingDirection < 0 ||
+          (flingDirection === 0 &&
+            scrollYCurrent.value <= headerScrollDistance.value * snapThreshold)
         ) {
           // snap down
           snappingTo.value = 0
           scrollAnimation.value = scrollYCurrent.value
           scrollAnimation.value = withTiming(0)
-          //console.log('[${name}] snap down')
-        } else if (scrollYCurrent.value <= headerScrollDistance.value) {
+          logDebugEvent(debugEvents, `[${name}] snap down`, 0)
+        } else {
           // snap up
           snappingTo.value = headerScrollDistance.value
           scrollAnimation.value = scrollYCurrent.value
           scrollAnimation.value = withTiming(headerScrollDistance.value)
-          //console.log('[${name}] snap up')
+          logDebugEvent(
+            debugEvents,
+            `[${name}] snap up`,
+            headerScrollDistance.value
+          )
         }
       }
     }
@@ -370,6 +648,23 @@ export const useScrollHandlerY = (name: TabName) => {
     if (!enabled.value) return
 
     if (focusedTab.value === name) {
+      if (
+        IS_WEB &&
+        !isScrollTarget(scrollTargets, name, event.contentOffset.y)
+      ) {
+        // wheel and trackpad scrolling have no drag or momentum events, so we
+        // consider the scroll ended once the events stop coming
+        startDrag()
+        afterDrag.value = withDelay(
+          WEB_SCROLL_END_MS,
+          withTiming(0, { duration: 0 }, (isFinished) => {
+            if (isFinished) {
+              onMomentumEnd()
+            }
+          })
+        )
+      }
+
       if (IS_IOS) {
         let { y } = event.contentOffset
         // normalize the value so it starts at 0
@@ -388,6 +683,14 @@ export const useScrollHandlerY = (name: TabName) => {
         scrollYCurrent.value = y
       }
 
+      const now = Date.now()
+      const elapsed = now - lastScrollTime.value
+      if (elapsed > 0) {
+        scrollVelocity.value =
+          (scrollYCurrent.value - (scrollY.value[name] || 0)) / elapsed
+      }
+      lastScrollTime.value = now
+
       scrollY.value[name] = scrollYCurrent.value
       oldAccScrollY.value = accScrollY.value
       accScrollY.value = scrollY.value[name] + offset.value
@@ -409,11 +712,11 @@ export const useScrollHandlerY = (name: TabName) => {
     'worklet'
     if (!enabled.value) return
 
-    // 标记开始滚动，防止同步操作干扰
-    isScrolling.value = true
+    startDrag()
 
     // ensure the header stops snapping
     cancelAnimation(accDiffClamp)
+    releaseVelocity.value = 0
 
     if (IS_IOS) cancelAnimation(afterDrag)
   }
@@ -421,6 +724,13 @@ export const useScrollHandlerY = (name: TabName) => {
     'worklet'
     if (!enabled.value) return
 
+    // a finger that stopped before lifting has no velocity, even if the last
+    // scroll events were fast
+    releaseVelocity.value =
+      Date.now() - lastScrollTime.value > ONE_FRAME_MS * 3
+        ? 0
+        : scrollVelocity.value
+
     if (IS_IOS) {
       // we delay this by one frame so that onMomentumBegin may fire on iOS
       afterDrag.value = withDelay(
@@ -440,9 +750,6 @@ export const useScrollHandlerY = (name: TabName) => {
     'worklet'
     if (!enabled.value) return
 
-    // 确保在惯性滚动期间也标记为正在滚动
-    isScrolling.value = true
-
     if (IS_IOS) {
       cancelAnimation(afterDrag)
     }
@@ -488,75 +795,52 @@ export const useScrollHandlerY = (name: TabName) => {
       containerHeight,
       contentInset,
       snapThreshold,
+      snapPoints,
+      snapVelocityThreshold,
       enabled,
       scrollTo,
     ]
   )
 
-  // sync unfocused scenes with debouncing to reduce jitter
-  const lastSyncTime = useSharedValue(0)
+  // sync unfocused scenes once the pager starts moving between them, when the
+  // batch with this tab comes
+  const getNextPosition = getSyncStrategy(syncStrategy)
   useAnimatedReaction(
-    () => {
-      // if (!enabled.value) {
-      //   return false
-      // }
-
-      // if the index is decimal, then we're in between panes
-      const isChangingPane = !Number.isInteger(indexDecimal.value)
-
-      return isChangingPane
-    },
-    (isSyncNeeded, wasSyncNeeded) => {
+    () => syncBatch.value,
+    (batch, prevBatch) => {
       if (
-        isSyncNeeded &&
-        isSyncNeeded !== wasSyncNeeded &&
+        // a batch that was there before the reaction isn't new
+        prevBatch !== null &&
+        batch !== prevBatch &&
+        batch.includes(name) &&
         focusedTab.value !== name
       ) {
-        const now = Date.now()
-        
-        // 防抖动：限制同步频率，避免在快速切换时过于频繁的同步
-        if (now - lastSyncTime.value < 50) { // 20fps限制
-          return
-        }
-        
-        lastSyncTime.value = now
-        
-        let nextPosition: number | null = null
-        const focusedScrollY = scrollY.value[focusedTab.value]
         const tabScrollY = scrollY.value[name]
-        const areEqual = Math.abs(focusedScrollY - tabScrollY) < 1 // 增加容差
-
-        if (!areEqual) {
-          const currIsOnTop =
-            tabScrollY + StyleSheet.hairlineWidth <= headerScrollDistance.value
-          const focusedIsOnTop =
-            focusedScrollY + StyleSheet.hairlineWidth <=
-            headerScrollDistance.value
-
-          if (revealHeaderOnScroll) {
-            const hasGap = accDiffClamp.value > tabScrollY
-            if (hasGap || currIsOnTop) {
-              nextPosition = accDiffClamp.value
-            }
-          } else if (typeof snapThreshold === 'number') {
-            if (focusedIsOnTop) {
-              nextPosition = snappingTo.value
-            } else if (currIsOnTop) {
-              nextPosition = headerHeight || 0
-            }
-          } else if (currIsOnTop || focusedIsOnTop) {
-            nextPosition = Math.min(focusedScrollY, headerScrollDistance.value)
-          }
-        }
+        // the header is where the focused tab's collapse options put it
+        const focusedOptions = tabCollapseOptions[focusedTab.value]
+        const nextPosition = getNextPosition({
+          tabName: name,
+          focusedTab: focusedTab.value,
+          tabScrollY,
+          focusedScrollY: scrollY.value[focusedTab.value],
+          headerHeight: headerHeight || 0,
+          headerScrollDistance: headerScrollDistance.value,
+          accDiffClamp: accDiffClamp.value,
+          snappingTo: snappingTo.value,
+          revealHeaderOnScroll: !!focusedOptions?.revealHeaderOnScroll,
+          snapThreshold: focusedOptions?.snapThreshold,
+          snapPoints,
+        })
 
-        if (nextPosition !== null && Math.abs(nextPosition - tabScrollY) > 1 && !isScrolling.value) {
+        if (nextPosition !== null && Math.abs(nextPosition - tabScrollY) > 1) {
           // console.log(`sync ${name} ${nextPosition}`)
           scrollY.value[name] = nextPosition
+          markScrollTarget(scrollTargets, name, nextPosition, nextPosition)
           scrollTo(refMap[name], 0, nextPosition, false, `[${name}] sync pane`)
         }
       }
     },
-    [revealHeaderOnScroll, refMap, snapThreshold, enabled, scrollTo]
+    [tabCollapseOptions, refMap, snapPoints, enabled, scrollTo, getNextPosition]
   )
 
   return {
@@ -635,9 +919,7 @@ export function useAfterMountEffect(
   return onLayoutOut
 }
 
-export function useConvertAnimatedToValue<T>(
-  animatedValue: SharedValue<T>
-) {
+export function useConvertAnimatedToValue<T>(animatedValue: SharedValue<T>) {
   const [value, setValue] = useState<T>(animatedValue.value)
 
   useAnimatedReaction(
@@ -674,6 +956,26 @@ export function useHeaderMeasurements(): HeaderMeasurements {
   }
 }
 
+/**
+ * Returns an animated value going from 0 when the header is expanded to 1 when
+ * it is collapsed to `minHeaderHeight`. Follows the revealed header height when
+ * using `revealHeaderOnScroll`.
+ */
+export function useHeaderCollapseProgress(): SharedValue<number> {
+  const { headerCollapseProgress } = useTabsContext()
+  return headerCollapseProgress
+}
+
+/**
+ * Returns an animated value with how far the focused tab is pulled past its
+ * top, when `allowHeaderOverscroll` is enabled. Use it to drive your own
+ * overscroll effects, for example on a header background.
+ */
+export function useHeaderOverscroll(): SharedValue<number> {
+  const { headerOverscroll } = useTabsContext()
+  return headerOverscroll
+}
+
 /**
  * Returns the vertical scroll position of the current tab as an Animated SharedValue
  */
@@ -691,6 +993,72 @@ export function useFocusedTab() {
   return focusedTabValue
 }
 
+/**
+ * Returns whether the tab this is rendered in is focused. Only re-renders when
+ * that changes, unlike `useFocusedTab`.
+ */
+export function useIsTabFocused(): boolean {
+  const name = useTabNameContext()
+  const { focusedTab } = useTabsContext()
+  const [isFocused, setIsFocused] = useState(() => focusedTab.value === name)
+
+  useAnimatedReaction(
+    () => focusedTab.value === name,
+    (focused, wasFocused) => {
+      if (focused !== wasFocused) {
+        runOnJS(setIsFocused)(focused)
+      }
+    },
+    [name]
+  )
+
+  return isFocused
+}
+
+/**
+ * Runs the effect when the tab this is rendered in gains focus, and its
+ * cleanup when it loses focus or unmounts. Like react-navigation's
+ * `useFocusEffect`, wrap the effect in `useCallback` to avoid running it again
+ * on every render.
+ */
+export function useTabFocusEffect(effect: EffectCallback) {
+  const isFocused = useIsTabFocused()
+
+  useEffect(() => {
+    if (!isFocused) return
+    return effect()
+  }, [isFocused, effect])
+}
+
+/**
+ * Calls the callback when a swipe towards the tab this is rendered in passes
+ * halfway, before the tab is focused. Swiping back and forth over the
+ * halfway point calls it again.
+ */
+export function useTabWillFocus(callback: () => void) {
+  const name = useTabNameContext()
+  const { tabNames, indexDecimal } = useTabsContext()
+
+  const callbackRef = useRef(callback)
+  useEffect(() => {
+    callbackRef.current = callback
+  }, [callback])
+
+  const notify = useCallback(() => {
+    callbackRef.current()
+  }, [])
+
+  useAnimatedReaction(
+    () => Math.round(indexDecimal.value) === tabNames.value.indexOf(name),
+    (willFocus, wasWillFocus) => {
+      if (willFocus && wasWillFocus === false) {
+        runOnJS(notify)()
+      }
+    },
+    [name, notify]
+  )
+}
+
 /**
  * Returns an animated value representing the current tab index, as a floating point number
  */
@@ -699,6 +1067,15 @@ export function useAnimatedTabIndex() {
   return indexDecimal
 }
 
+/**
+ * Returns a read-only animated value with where the container is in a tab
+ * switch: `idle`, `dragging`, `settling` or `syncing`.
+ */
+export function useTabSwitchState(): DerivedValue<TabSwitchState> {
+  const { tabSwitchState } = useTabsContext()
+  return tabSwitchState
+}
+
 export const usePageScrollHandler = (
   handlers: {
     onPageScroll: (
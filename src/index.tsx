@@ -1,8 +1,14 @@
 import { Container } from './Container'
+import { DebugOverlay } from './DebugOverlay'
 import { FlashList } from './FlashList'
 import { FlatList } from './FlatList'
 import { Lazy } from './Lazy'
-import { MaterialTabBarProps, MaterialTabItemProps } from './MaterialTabBar'
+import {
+  MaterialTabBarProps,
+  MaterialTabItemProps,
+  MaterialTabItemLayout,
+} from './MaterialTabBar'
+import { PagerViewAdapter } from './PagerViewAdapter'
 import { ScrollView } from './ScrollView'
 import { SectionList } from './SectionList'
 import { Tab } from './Tab'
@@ -14,7 +20,25 @@ import {
   CollapsibleRef,
   OnTabChangeCallback,
   TabItemProps,
+  TabIconProps,
   TabProps,
+  PagerProps,
+  PagerComponent,
+  PagerHandle,
+  PagerRef,
+  HeaderOverscrollMode,
+  TabBarPosition,
+  TabsState,
+  LazyPlaceholderProps,
+  LazyTransition,
+  LazyTransitionPreset,
+  LazyTransitionStyle,
+  SyncStrategy,
+  SyncStrategyContext,
+  SyncMode,
+  TabSwitchState,
+  PerformanceReport,
+  DebugEvent,
 } from './types'
 
 export type {
@@ -24,10 +48,29 @@ export type {
   ContainerRef,
   MaterialTabBarProps,
   MaterialTabItemProps,
+  MaterialTabItemLayout,
   CollapsibleRef,
   OnTabChangeCallback,
   TabItemProps,
+  TabIconProps,
   TabProps,
+  PagerProps,
+  PagerComponent,
+  PagerHandle,
+  PagerRef,
+  HeaderOverscrollMode,
+  TabBarPosition,
+  TabsState,
+  LazyPlaceholderProps,
+  LazyTransition,
+  LazyTransitionPreset,
+  LazyTransitionStyle,
+  SyncStrategy,
+  SyncStrategyContext,
+  SyncMode,
+  TabSwitchState,
+  PerformanceReport,
+  DebugEvent,
 }
 
 export const Tabs = {
@@ -38,14 +81,31 @@ export const Tabs = {
   ScrollView,
   SectionList,
   FlashList,
+  DebugOverlay,
 }
 
-export { Container, Tab, Lazy, FlatList, ScrollView, SectionList, FlashList }
+export {
+  Container,
+  Tab,
+  Lazy,
+  FlatList,
+  ScrollView,
+  SectionList,
+  FlashList,
+  DebugOverlay,
+}
+export { PagerViewAdapter }
 export {
   useCurrentTabScrollY,
   useHeaderMeasurements,
+  useHeaderCollapseProgress,
+  useHeaderOverscroll,
   useFocusedTab,
+  useIsTabFocused,
+  useTabFocusEffect,
+  useTabWillFocus,
   useAnimatedTabIndex,
+  useTabSwitchState,
   useCollapsibleStyle,
 } from './hooks'
 export type { HeaderMeasurements } from './hooks'
@@ -11,10 +11,80 @@ import Animated, {
   AnimatedRef,
   SharedValue,
   AnimatedStyle,
+  WithTimingConfig,
 } from 'react-native-reanimated'
 
 export type ContainerRef = PagerView
 
+/**
+ * Imperative handle the container needs from the pager. `PagerView` from
+ * `react-native-pager-view` already satisfies it.
+ */
+export type PagerHandle = Pick<
+  ContainerRef,
+  'setPage' | 'setPageWithoutAnimation'
+>
+
+/**
+ * Ref to the pager. An `AnimatedRef` for the default pager, a plain ref object
+ * for a custom `PagerComponent`, whose handle may not be a native view.
+ */
+export type PagerRef<R extends PagerHandle = ContainerRef> = [R] extends [
+  ContainerRef,
+]
+  ? AnimatedRef<ContainerRef>
+  : React.RefObject<R | null>
+
+export type PagerProps = {
+  initialPage: number
+  /**
+   * `null` means the pager default, which is enabled.
+   */
+  scrollEnabled?: boolean | null
+  /**
+   * Worklet to call while the pages move, with the index of the first visible
+   * page and the offset towards the next one, between 0 and 1.
+   */
+  onPageScroll: (position: number, offset: number) => void
+  style?: StyleProp<ViewStyle>
+  children: React.ReactNode
+}
+
+/**
+ * Pager used to swipe between tabs, with the type of its ref handle and of any
+ * props it takes on top of `PagerProps`. Any `pagerProps` are forwarded to it.
+ */
+export type PagerComponent<
+  R extends PagerHandle = PagerHandle,
+  P extends object = object,
+> = React.ComponentType<PagerProps & P & React.RefAttributes<R>>
+
+/**
+ * Type of the default pager, backed by `react-native-pager-view`.
+ */
+export type DefaultPagerComponent = PagerComponent<
+  ContainerRef,
+  Omit<PagerViewProps, 'onPageScroll'>
+>
+
+/**
+ * Type of the ref handle of a `PagerComponent`.
+ */
+export type PagerComponentRef<C extends PagerComponent<any, any>> =
+  React.ComponentProps<C> extends React.RefAttributes<infer R>
+    ? R extends PagerHandle
+      ? R
+      : PagerHandle
+    : PagerHandle
+
+/**
+ * Props of a `PagerComponent` that can be passed through `pagerProps`.
+ */
+export type PagerComponentProps<C extends PagerComponent<any, any>> = Omit<
+  React.ComponentProps<C>,
+  'onPageScroll' | 'initialPage' | 'children' | 'ref'
+>
+
 export type RefComponent =
   | FlatList<any>
   | ScrollView
@@ -25,23 +95,71 @@ export type Ref<T extends RefComponent> = React.RefObject<T>
 
 export type TabName = string
 
+export type HeaderAnimationOptions = {
+  /**
+   * Whether to animate the transition.
+   * @default true
+   */
+  animated?: boolean
+}
+
 export type RefHandler<T extends TabName = TabName> = {
   jumpToTab: (name: T) => boolean
   setIndex: (index: number) => boolean
   getFocusedTab: () => T
   getCurrentIndex: () => number
+  /**
+   * Collapse the header, scrolling the tabs that would otherwise leave a gap
+   * below it.
+   */
+  collapseHeader: (options?: HeaderAnimationOptions) => void
+  /**
+   * Expand the header. Without `revealHeaderOnScroll` this scrolls the
+   * focused tab back to the top.
+   */
+  expandHeader: (options?: HeaderAnimationOptions) => void
+  /**
+   * Scroll a tab to the top. Defaults to the focused tab.
+   */
+  scrollToTop: (name?: T) => boolean
+  /**
+   * Scroll a tab to the given offset, where `0` is the top of the content
+   * with the header fully expanded.
+   */
+  scrollTabTo: (name: T, y: number, options?: HeaderAnimationOptions) => boolean
+  /**
+   * Serialisable snapshot of the focused tab and the scroll positions, to
+   * pass as `initialState` when the container mounts again.
+   */
+  getState: () => TabsState<T>
+}
+
+export type TabsState<T extends TabName = TabName> = {
+  focusedTab: T
+  /**
+   * Scroll offset of each tab, where `0` is the top of the content with the
+   * header fully expanded.
+   */
+  scrollY: Partial<Record<T, number>>
+  /**
+   * Header offset when using `revealHeaderOnScroll`.
+   */
+  accDiffClamp: number
 }
 
 export type CollapsibleRef<T extends TabName = TabName> =
   | RefHandler<T>
   | undefined
 
-export type TabBarProps<T extends TabName = TabName> = {
+export type TabBarProps<
+  T extends TabName = TabName,
+  R extends PagerHandle = ContainerRef,
+> = {
   indexDecimal: SharedValue<number>
   focusedTab: SharedValue<T>
   tabNames: T[]
   index: SharedValue<number>
-  containerRef: AnimatedRef<ContainerRef>
+  containerRef: PagerRef<R>
   onTabPress: (name: T) => void
   tabProps: TabsWithProps<T>
 
@@ -62,12 +180,184 @@ export type OnTabChangeCallback<T extends TabName = TabName> = (
   data: IndexChangeEventData<T>
 ) => void
 
+/**
+ * Offsets a scroll we started goes from and to.
+ */
+export type ScrollTarget = {
+  from: number
+  to: number
+}
+
+/**
+ * A scroll or snap logged for the debug overlay.
+ */
+export type DebugEvent = {
+  debugKey: string
+  /**
+   * Offset scrolled or snapped to.
+   */
+  y: number
+  /**
+   * How many times in a row the key was logged, for example by the frames of
+   * a snap animation.
+   */
+  count: number
+}
+
+export type PerformanceReport<T extends TabName = TabName> =
+  | {
+      type: 'tab-switch'
+      prevTabName: T
+      tabName: T
+      /**
+       * `press` for tab presses and ref calls, `swipe` for the pager.
+       */
+      trigger: 'press' | 'swipe'
+      /**
+       * Milliseconds from the press or the start of the swipe until the
+       * focused tab is synced.
+       */
+      duration: number
+      /**
+       * Syncs skipped during the switch, because a list was still scrolling
+       * or the focused tab had not mounted yet.
+       */
+      droppedSyncs: number
+    }
+  | {
+      type: 'lazy-mount'
+      tabName: T
+      /**
+       * Milliseconds from rendering the lazy tab's children until they are
+       * committed.
+       */
+      duration: number
+    }
+
 export type TabReactElement<T extends TabName = TabName> = React.ReactElement<
   TabProps<T>
 > | null
 
-export type CollapsibleProps = {
+export type TabBarPosition = 'top' | 'bottom'
+
+export type SyncStrategyContext = {
+  /**
+   * Tab to sync, it is about to become visible.
+   */
+  tabName: TabName
+  focusedTab: TabName
+  tabScrollY: number
+  focusedScrollY: number
+  headerHeight: number
+  headerScrollDistance: number
+  /**
+   * Header offset when the focused tab uses `revealHeaderOnScroll`.
+   */
+  accDiffClamp: number
+  /**
+   * Offset the focused tab last snapped to.
+   */
+  snappingTo: number
+  /**
+   * Collapse options of the focused tab.
+   */
+  revealHeaderOnScroll: boolean
+  snapThreshold: number | null | undefined
+  snapPoints: number[] | undefined
+}
+
+/**
+ * How unfocused tabs are scrolled when a swipe starts. A worklet returns the
+ * tab's next scroll position, or `null` to leave it.
+ */
+export type SyncStrategy =
+  | 'match-header'
+  | 'reset-to-top'
+  | 'preserve'
+  | ((context: SyncStrategyContext) => number | null)
+
+/**
+ * `all` syncs every unfocused tab when the pager starts moving. `adaptive`
+ * measures the frame times of the last tab switches, and when they drop it
+ * spreads the sync over several frames and syncs fewer tabs.
+ */
+export type SyncMode = 'all' | 'adaptive'
+
+/**
+ * How adaptive sync syncs the unfocused tabs: all of them at once, all of
+ * them two at a time, or only the neighbours of the focused tab and the
+ * target, one at a time.
+ */
+export type AdaptiveSyncLevel = 'normal' | 'moderate' | 'aggressive'
+
+/**
+ * Where the container is in a tab switch:
+ * - `idle`: nothing is moving
+ * - `dragging`: a tab's list is being dragged or flung
+ * - `settling`: the pager is moving between tabs
+ * - `syncing`: the pager settled, the focused tab is being synced
+ */
+export type TabSwitchState = 'idle' | 'dragging' | 'settling' | 'syncing'
+
+/**
+ * Events moving the tab switch state:
+ * - `drag-start`: a list drag began
+ * - `drag-end`: the list stopped, after its momentum if any
+ * - `page-move`: the pager left an integer index
+ * - `page-settle`: the pager came to rest on a tab
+ * - `sync-end`: the focused tab was synced
+ */
+export type TabSwitchEvent =
+  | 'drag-start'
+  | 'drag-end'
+  | 'page-move'
+  | 'page-settle'
+  | 'sync-end'
+
+export type LazyTransitionPreset = 'fade' | 'slide-up' | 'scale' | 'none'
+
+/**
+ * Worklet returning the style of a lazy tab mounting, for a progress going
+ * from 0 to 1.
+ */
+export type LazyTransitionStyle = (progress: number) => ViewStyle
+
+export type LazyTransition =
+  | LazyTransitionPreset
+  | ({
+      /**
+       * @default 'fade'
+       */
+      style?: LazyTransitionPreset | LazyTransitionStyle
+    } & Pick<WithTimingConfig, 'duration' | 'easing'>)
+
+export type LazyPlaceholderProps<T extends TabName = TabName> = {
+  name: T
+  label: TabItemProps<T>['label'] | undefined
+}
+
+export type HeaderOverscrollMode = 'translate' | 'stretch' | 'parallax'
+
+export type CollapsibleProps<
+  C extends PagerComponent<any, any> = DefaultPagerComponent,
+> = {
   initialTabName?: TabName
+  /**
+   * State returned by `getState`, restores the focused tab and scrolls each
+   * tab back once its content is tall enough. Takes precedence over
+   * `initialTabName`.
+   */
+  initialState?: TabsState<TabName>
+  /**
+   * Name of the focused tab. When set, the container is controlled: tab
+   * presses, and swipes once they settle, call `onTabChange` as a request,
+   * and the pager only stays on the new tab if `focusedTabName` is updated
+   * to it. After a swipe, the pager goes back to the focused tab as soon as
+   * the parent renders the container again with the same `focusedTabName`,
+   * or after 500ms without an answer. Update it in the same render as any
+   * other state you change in `onTabChange`.
+   */
+  focusedTabName?: TabName
   /**
    * Is optional, but will optimize the first render.
    */
@@ -90,11 +380,56 @@ export type CollapsibleProps = {
    * @default null
    */
   snapThreshold?: number | null
+  /**
+   * How unfocused tabs are scrolled when a swipe starts. `match-header`
+   * scrolls them so the header doesn't jump, `reset-to-top` scrolls them to
+   * the top, and `preserve` leaves them. Pass a worklet for your own policy.
+   *
+   * @default 'match-header'
+   */
+  syncStrategy?: SyncStrategy
+  /**
+   * How unfocused tabs are synced when the pager starts moving. `all` syncs
+   * every tab in the same frame. `adaptive` averages the frame time of the
+   * last 10 tab switches: above 20ms it syncs two tabs every 32ms, and above
+   * 32ms it only syncs the neighbours of the focused tab and the tab being
+   * switched to, one every 48ms. The tab being switched to is always synced
+   * first, and the tabs left out keep their scroll position.
+   *
+   * @default 'all'
+   */
+  syncMode?: SyncMode
+  /**
+   * Header offsets to snap to, from `0` (expanded) to the collapsed offset
+   * (header height minus `minHeaderHeight`). The header snaps to the nearest
+   * one. Takes precedence over `snapThreshold`.
+   */
+  snapPoints?: number[]
+  /**
+   * Scroll velocity, in points per millisecond, above which releasing a drag
+   * snaps the header in the direction of the fling instead of to the closest
+   * snap position. `null` to always snap to the closest one.
+   * @default 0.5
+   */
+  snapVelocityThreshold?: number | null
   children: TabReactElement<TabName>[] | TabReactElement<TabName>
 
-  renderHeader?: (props: TabBarProps<TabName>) => React.ReactElement | null
+  renderHeader?: (
+    props: TabBarProps<TabName, PagerComponentRef<C>>
+  ) => React.ReactElement | null
+
+  renderTabBar?: (
+    props: TabBarProps<TabName, PagerComponentRef<C>>
+  ) => React.ReactElement | null
 
-  renderTabBar?: (props: TabBarProps<TabName>) => React.ReactElement | null
+  /**
+   * Where to render the tab bar. At the `bottom`, it is pinned to the bottom of
+   * the container while the header still collapses at the top. Add any safe
+   * area padding to the tab bar you render.
+   *
+   * @default 'top'
+   */
+  tabBarPosition?: TabBarPosition
 
   headerContainerStyle?: StyleProp<AnimatedStyle<ViewStyle>>
   containerStyle?: StyleProp<ViewStyle>
@@ -106,10 +441,49 @@ export type CollapsibleProps = {
   lazy?: boolean
   cancelLazyFadeIn?: boolean
   /**
-   * Props passed to the pager. If you want for example to
-   * disable swiping, you can pass `{ scrollEnabled: false }`
+   * How lazy tabs appear once mounted, a preset or a style worklet with its
+   * timing. Skipped when the OS reduce motion setting is on.
+   *
+   * @default 'fade'
+   */
+  lazyTransition?: LazyTransition
+  /**
+   * Maximum number of mounted tabs. The tabs beyond it are unmounted, the
+   * never focused ones first, then the least recently focused, even without
+   * `lazy`. They mount again with their scroll position when focused.
+   */
+  maxMountedTabs?: number
+  /**
+   * Unmount a tab once it has been unfocused for this long. It mounts again
+   * with its scroll position when focused.
+   */
+  unmountInactiveAfterMs?: number
+  /**
+   * With `lazy`, mount the tabs at most this many tabs away from the focused
+   * one in the background, so swiping to them doesn't show a blank page.
+   *
+   * @default 0
+   */
+  preloadDistance?: number
+  /**
+   * Rendered inside a `Tabs.ScrollView` until a lazy tab mounts, so the
+   * header still collapses and syncs while it shows. Defaults to an empty
+   * scroll view.
    */
-  pagerProps?: Omit<PagerViewProps, 'onPageScroll' | 'initialPage'>
+  renderLazyPlaceholder?: (
+    props: LazyPlaceholderProps
+  ) => React.ReactElement | null
+  /**
+   * Props passed to the pager, typed from the props of `PagerComponent`. If
+   * you want for example to disable swiping, you can pass
+   * `{ scrollEnabled: false }`
+   */
+  pagerProps?: PagerComponentProps<C>
+  /**
+   * Component used to swipe between tabs. Defaults to a wrapper around
+   * `react-native-pager-view`, provide your own to use a different pager.
+   */
+  PagerComponent?: C
   /**
    * Callback fired when the index changes. It receives the current index.
    */
@@ -132,14 +506,61 @@ export type CollapsibleProps = {
    * @default false
    */
   allowHeaderOverscroll?: boolean
+
+  /**
+   * How the header follows the overscroll when `allowHeaderOverscroll` is
+   * enabled. `translate` moves it down, `stretch` scales it to fill the gap,
+   * and `parallax` also stretches it, while making the header content scroll
+   * at half the speed of the tabs when collapsing.
+   *
+   * @default 'translate'
+   */
+  headerOverscrollMode?: HeaderOverscrollMode
+
+  /**
+   * Callback fired once when the header becomes fully collapsed.
+   */
+  onHeaderCollapsed?: () => void
+
+  /**
+   * Callback fired once when the header becomes fully expanded again.
+   */
+  onHeaderExpanded?: () => void
+
+  /**
+   * Callback fired with the duration of each tab switch and each lazy tab
+   * mount, for example to forward them to your analytics. A `tab-switch` report
+   * has the `trigger` (`press` or `swipe`), the `duration` in ms until the
+   * focused tab is synced, and the number of `droppedSyncs`. A `lazy-mount`
+   * report has the `duration` in ms from rendering the tab's children until
+   * they are committed.
+   */
+  onPerformanceReport?: (report: PerformanceReport<TabName>) => void
+
+  /**
+   * Render `Tabs.DebugOverlay` over the container, with the live collapse and
+   * sync state and the last scroll and snap events.
+   *
+   * @default false
+   */
+  debug?: boolean
 }
 
 export type ContextType<T extends TabName = TabName> = {
   headerHeight: number
   tabBarHeight: number
+  tabBarPosition: TabBarPosition
   containerHeight: number
   revealHeaderOnScroll: boolean
   snapThreshold: number | null | undefined
+  snapPoints: number[] | undefined
+  snapVelocityThreshold: number | null
+  syncStrategy: SyncStrategy
+  /**
+   * Unfocused tabs to sync now. The container splits the tabs of a switch into
+   * batches, and a list syncs when a new batch has its tab.
+   */
+  syncBatch: SharedValue<TabName[]>
   /**
    * Index value, including decimal points. Use this to interpolate tab
    * indicators.
@@ -209,10 +630,49 @@ export type ContextType<T extends TabName = TabName> = {
    */
   contentHeights: SharedValue<number[]>
 
+  /**
+   * Scroll and snap events for the debug overlay, `null` when none is shown.
+   */
+  debugEvents: SharedValue<DebugEvent[] | null>
+
+  /**
+   * How many debug overlays are shown, events are logged while there is one.
+   */
+  debugOverlays: SharedValue<number>
+
+  /**
+   * Scrolls we started on web, so that their scroll events are not taken for
+   * the user scrolling.
+   */
+  scrollTargets: SharedValue<Partial<Record<TabName, ScrollTarget>>>
+
   contentInset: number
 
+  /**
+   * `contentInset` of each tab, which includes the tab's own header section.
+   */
+  contentInsets: Record<TabName, number>
+
+  /**
+   * Collapse behaviour of each tab. The header follows the focused tab's.
+   */
+  tabCollapseOptions: Record<TabName, TabCollapseOptions>
+
+  tabProps: TabsWithProps<T>
+
   headerTranslateY: SharedValue<number>
 
+  /**
+   * How collapsed the header is, from 0 (expanded) to 1 (collapsed to
+   * `minHeaderHeight`).
+   */
+  headerCollapseProgress: SharedValue<number>
+
+  /**
+   * How far the focused tab is pulled past its top, 0 when not overscrolling.
+   */
+  headerOverscroll: SharedValue<number>
+
   width: number
 
   /**
@@ -225,9 +685,9 @@ export type ContextType<T extends TabName = TabName> = {
   minHeaderHeight: number
 
   /**
-   * Shared value to track if any tab is currently scrolling to prevent conflicting scroll operations
+   * Where the container is in a tab switch, see `getNextTabSwitchState`.
    */
-  isScrolling: SharedValue<boolean>
+  tabSwitchState: SharedValue<TabSwitchState>
 }
 
 export type ScrollViewProps = ComponentProps<typeof Animated.ScrollView>
@@ -237,6 +697,7 @@ export type CollapsibleStyle = {
   contentContainerStyle: {
     minHeight: number
     paddingTop: number
+    paddingBottom?: number
   }
   progressViewOffset: number
 }
@@ -252,10 +713,86 @@ export type TabItemProps<T extends TabName> = {
   indexDecimal: SharedValue<number>
 
   label: string | ((props: TabItemProps<T>) => React.ReactNode)
+
+  /**
+   * Whether the tab can't be focused.
+   */
+  disabled?: boolean
+
+  /**
+   * Count or text shown next to the label, or a dot when `true`.
+   */
+  badge?: number | string | boolean
+
+  icon?: React.ReactElement | ((props: TabIconProps) => React.ReactNode)
+}
+
+export type TabIconProps = {
+  /**
+   * Whether the tab is the focused one, switches halfway through a swipe.
+   */
+  focused: boolean
+  /**
+   * Colour of the tab label, use it to tint the icon.
+   */
+  color: string
+  indexDecimal: SharedValue<number>
 }
 
 export type TabProps<T extends TabName> = {
   readonly name: T
   label?: TabItemProps<T>['label']
+  /**
+   * Count or text shown next to the label in the tab bar, or a dot when
+   * `true`. Nothing is shown for `false`, `0` or an empty string.
+   */
+  badge?: TabItemProps<T>['badge']
+  /**
+   * Icon shown in the tab bar. Pass a render function to tint it with the
+   * label colour.
+   */
+  icon?: TabItemProps<T>['icon']
+  /**
+   * Show the tab dimmed in the tab bar, and don't let it be focused. Swiping
+   * in the pager skips it.
+   */
+  disabled?: boolean
+  /**
+   * Remove the tab from the tab bar, and keep the pager from reaching it. Its
+   * content stays mounted out of sight and keeps its state when the tab is
+   * hidden or shown again, but its lists don't follow the header while hidden.
+   */
+  hidden?: boolean
+  /**
+   * Header section shown below the container header while this tab is
+   * focused. It cross-fades with the other tabs' sections while swiping.
+   */
+  renderHeader?: (props: TabBarProps<T>) => React.ReactElement | null
+  /**
+   * Overrides the container's `revealHeaderOnScroll` for this tab.
+   */
+  revealHeaderOnScroll?: boolean
+  /**
+   * Overrides the container's `snapThreshold` for this tab.
+   */
+  snapThreshold?: number | null
+  /**
+   * Overrides the container's `minHeaderHeight` for this tab.
+   */
+  minHeaderHeight?: number
+  /**
+   * Overrides the container's `allowHeaderOverscroll` for this tab.
+   */
+  allowHeaderOverscroll?: boolean
   children: React.ReactNode
 }
+
+/**
+ * Collapse behaviour of a tab, resolved from its props and the container's.
+ */
+export type TabCollapseOptions = {
+  revealHeaderOnScroll: boolean
+  snapThreshold: number | null | undefined
+  minHeaderHeight: number
+  allowHeaderOverscroll: boolean | undefined
+}
@@ -1,6 +1,6 @@
 import { useCallback, useRef, useEffect } from 'react'
 import { InteractionManager } from 'react-native'
-import { runOnJS, runOnUI, useSharedValue } from 'react-native-reanimated'
+import { runOnJS, runOnUI } from 'react-native-reanimated'
 import { scrollToImpl } from './helpers'
 
 /**
@@ -140,28 +140,6 @@ export function useHighPerformanceTabSync(
   }
 }
 
-/**
- * 懒加载Tab内容Hook
- * 只在需要时渲染tab内容
- */
-export function useLazyTabContent(tabName: string, isActive: boolean, preloadDistance: number = 1) {
-  const shouldRender = useSharedValue(false)
-  const hasRendered = useRef(false)
-  
-  useEffect(() => {
-    // 一旦渲染过就保持渲染状态，避免重复渲染开销
-    if (isActive && !hasRendered.current) {
-      shouldRender.value = true
-      hasRendered.current = true
-    }
-  }, [isActive, shouldRender])
-  
-  return {
-    shouldRender: shouldRender.value || hasRendered.current,
-    isActive
-  }
-}
-
 /**
  * 内存优化Hook
  * 自动清理不再需要的资源